@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  Credential,
+  Ed25519KeyHashes,
+  EnterpriseAddress,
+  FixedTransaction,
+  NativeScript,
+  NativeScripts,
+  PrivateKey,
+  ScriptAny,
+  ScriptPubkey,
+  Transaction,
+  TransactionHash,
+  TransactionWitnessSet,
+  Vkeywitnesses,
+  make_vkey_witness,
+} from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { assembleTransaction } from "./assemble.js";
+import { decodeTransaction } from "./decoder.js";
+import { verifySignatures } from "./signatures.js";
+import { parseUtxos } from "./utxo.js";
+import { SAMPLE_TX_HEX } from "./test-fixtures.js";
+
+const alice = PrivateKey.from_normal_bytes(new Uint8Array(32).fill(1));
+const bob = PrivateKey.from_normal_bytes(new Uint8Array(32).fill(2));
+const carol = PrivateKey.from_normal_bytes(new Uint8Array(32).fill(3));
+const dave = PrivateKey.from_normal_bytes(new Uint8Array(32).fill(4));
+const keyHash = (key: PrivateKey) => key.to_public().hash().to_hex();
+
+/** Sample body requiring alice, with its witness datums and a native script any [bob, carol] */
+function unsignedTx(): FixedTransaction {
+  const tx = Transaction.from_hex(SAMPLE_TX_HEX);
+  const body = tx.body();
+  const signers = Ed25519KeyHashes.new();
+  signers.add(alice.to_public().hash());
+  body.set_required_signers(signers);
+
+  const keys = NativeScripts.new();
+  [bob, carol].forEach((key) => keys.add(NativeScript.new_script_pubkey(ScriptPubkey.new(key.to_public().hash()))));
+  const scripts = NativeScripts.new();
+  scripts.add(NativeScript.new_script_any(ScriptAny.new(keys)));
+  const witnessSet = tx.witness_set();
+  witnessSet.set_native_scripts(scripts);
+  return FixedTransaction.new(body.to_bytes(), witnessSet.to_bytes(), true);
+}
+
+const UNSIGNED = unsignedTx();
+const TX_HASH = UNSIGNED.transaction_hash();
+
+/** A CIP-30 signTx response: a witness set with the signer's vkey witness */
+function cip30Witness(key: PrivateKey, hash: TransactionHash = TX_HASH): string {
+  const vkeys = Vkeywitnesses.new();
+  vkeys.add(make_vkey_witness(hash, key));
+  const witnessSet = TransactionWitnessSet.new();
+  witnessSet.set_vkeys(vkeys);
+  return witnessSet.to_hex();
+}
+
+/** A cardano-cli witness file's cborHex: [0, vkeywitness] */
+function cliWitness(key: PrivateKey): string {
+  return `8200${make_vkey_witness(TX_HASH, key).to_hex()}`;
+}
+
+describe("assembleTransaction", () => {
+  it("merges CIP-30 and cardano-cli witnesses without touching the body", () => {
+    const result = assembleTransaction(UNSIGNED.to_hex(), [cip30Witness(alice), cliWitness(bob)]);
+
+    expect(result.txId).toBe(TX_HASH.to_hex());
+    expect(result.txHex.startsWith(`84${Buffer.from(UNSIGNED.raw_body()).toString("hex")}`)).toBe(true);
+    expect(result.added.map((w) => w.keyHash)).toEqual([keyHash(alice), keyHash(bob)]);
+    expect(result.missing).toEqual([]);
+
+    const signatures = verifySignatures(result.txHex);
+    expect(signatures.bodyHash).toBe(result.txId);
+    expect(signatures.witnesses.map((w) => [w.keyHash, w.valid])).toEqual([
+      [keyHash(alice), true],
+      [keyHash(bob), true],
+    ]);
+    expect(decodeTransaction(result.txHex).witnessSet.plutusData).toEqual(
+      decodeTransaction(UNSIGNED.to_hex()).witnessSet.plutusData,
+    );
+  });
+
+  it("keeps one witness per key across witness files and signed transactions", () => {
+    const partial = assembleTransaction(UNSIGNED.to_hex(), [cip30Witness(bob)]);
+    expect(partial.missing).toEqual([keyHash(alice)]);
+
+    const result = assembleTransaction(partial.txHex, [partial.txHex, cip30Witness(alice), cliWitness(alice)]);
+
+    expect(result.added.map((w) => w.keyHash)).toEqual([keyHash(alice)]);
+    expect(result.duplicates).toEqual([keyHash(bob), keyHash(alice)]);
+    expect(verifySignatures(result.txHex).witnesses).toHaveLength(2);
+  });
+
+  it("refuses witnesses the transaction doesn't need or that sign another transaction", () => {
+    const otherTx = TransactionHash.from_bytes(new Uint8Array(32));
+
+    expect(() => assembleTransaction(UNSIGNED.to_hex(), [cip30Witness(dave)])).toThrow(
+      `${keyHash(dave)} is not a required signer, a key of the transaction's native scripts`,
+    );
+    expect(() => assembleTransaction(UNSIGNED.to_hex(), [cip30Witness(carol, otherTx)])).toThrow(
+      `${keyHash(carol)} signed a different transaction than ${TX_HASH.to_hex()}`,
+    );
+    expect(() => assembleTransaction(UNSIGNED.to_hex(), [TransactionWitnessSet.new().to_hex()])).toThrow(
+      /Witness file 1 has no vkey witnesses/,
+    );
+  });
+
+  it("accepts the payment keys of spent inputs given the UTxOs", () => {
+    const [input] = decodeTransaction(UNSIGNED.to_hex()).inputs;
+    const address = EnterpriseAddress.new(1, Credential.from_keyhash(dave.to_public().hash())).to_address().to_bech32();
+    const utxos = parseUtxos({ [`${input.txHash}#${input.index}`]: { address, value: { lovelace: 5000000 } } });
+
+    const result = assembleTransaction(UNSIGNED.to_hex(), [cip30Witness(dave)], { utxos });
+
+    expect(result.added.map((w) => w.keyHash)).toEqual([keyHash(dave)]);
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  Ed25519Signature,
+  PublicKey,
+  TransactionWitnessSet,
+  Vkeywitness,
+} from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { blake2b256Hex } from "./blake2b.js";
+import { decodeCbor, encodeCborHeader, getMapEntry, rawHex, type CborNode } from "./cbor.js";
+import { decodeTransaction, decodeVkeyWitness, toArray } from "./decoder.js";
+import { resolveInputs } from "./utxo.js";
+import type {
+  AssembledTransaction,
+  DecodedNativeScript,
+  DecodedTransaction,
+  DecodedUtxo,
+  DecodedVkeyWitness,
+} from "./types.js";
+
+/** Witness set key of the vkey witnesses */
+const VKEY_WITNESSES = 0;
+
+/**
+ * Vkey witnesses of a witness file: a witness set (CIP-30 signTx), a
+ * cardano-cli key witness ([0, vkeywitness]), a bare vkey witness or a
+ * transaction signed by another party
+ */
+function readVkeyWitnesses(hex: string): Vkeywitness[] {
+  const bytes = Buffer.from(hex, "hex");
+  const node = decodeCbor(bytes);
+  if (node.type === "array" && node.items[0]?.type === "map") {
+    return readVkeyWitnesses(rawHex(bytes, node.items[1]));
+  }
+  if (node.type === "array" && node.items[0]?.type === "uint") {
+    if (node.items[0].value !== 0n) throw new Error("Byron bootstrap witnesses are not supported");
+    return [Vkeywitness.from_hex(rawHex(bytes, node.items[1]))];
+  }
+  if (node.type === "array") return [Vkeywitness.from_hex(hex)];
+
+  const witnessSet = TransactionWitnessSet.from_hex(hex);
+  if (witnessSet.bootstraps()?.len()) throw new Error("Byron bootstrap witnesses are not supported");
+  return toArray(witnessSet.vkeys());
+}
+
+function nativeScriptKeys(script: DecodedNativeScript): string[] {
+  if (script.type === "sig") return [script.keyHash];
+  if (script.type === "after" || script.type === "before") return [];
+  return script.scripts.flatMap(nativeScriptKeys);
+}
+
+/**
+ * Keys whose witnesses the transaction needs: required signers, keys of its
+ * native scripts and, with the spent UTxOs, the payment keys of key-locked inputs
+ */
+function neededKeys(tx: DecodedTransaction, utxos: DecodedUtxo[] | undefined): Set<string> {
+  const scriptKeys = (tx.witnessSet.nativeScripts ?? []).flatMap(({ script }) => nativeScriptKeys(script));
+  const keys = [...tx.requiredSigners, ...scriptKeys];
+  if (utxos) {
+    const resolved = resolveInputs(tx, utxos);
+    [...resolved.inputs, ...resolved.collateral].forEach(({ output }) => {
+      const credential = output?.address.paymentCredential;
+      if (credential?.type === "key") keys.push(credential.hash);
+    });
+  }
+  return new Set(keys);
+}
+
+/** The vkey witness list items, unwrapped from a tag 258 set */
+function vkeyItems(node: CborNode | undefined): CborNode[] {
+  const list = node?.type === "tag" ? node.item : node;
+  return list?.type === "array" ? list.items : [];
+}
+
+/**
+ * Merge the vkey witnesses of partial-signing witness files into a
+ * transaction. Witnesses already present or given twice are kept once;
+ * witnesses for keys the transaction doesn't need, or whose signature doesn't
+ * verify against its id, are refused. Only the vkey witness entry of the
+ * witness set is rewritten: the body, and so the tx id, keep their exact bytes.
+ */
+export function assembleTransaction(
+  txHex: string,
+  witnessHexes: string[],
+  options: { utxos?: DecodedUtxo[] } = {},
+): AssembledTransaction {
+  const bytes = Buffer.from(txHex, "hex");
+  const root = decodeCbor(bytes);
+  const [body, witnessSet] = root.type === "array" ? root.items : [];
+  if (body?.type !== "map" || witnessSet?.type !== "map") {
+    throw new Error("Not a transaction: expected an array of body and witness set");
+  }
+
+  const decoded = decodeTransaction(txHex);
+  const txId = blake2b256Hex(rawHex(bytes, body));
+  const message = Buffer.from(txId, "hex");
+  const needed = neededKeys(decoded, options.utxos);
+
+  const existing = getMapEntry(witnessSet, VKEY_WITNESSES);
+  const vkeys = vkeyItems(existing).map((item) => rawHex(bytes, item));
+  const present = new Set(vkeys.map((hex) => decodeVkeyWitness(Vkeywitness.from_hex(hex)).publicKey));
+
+  const added: DecodedVkeyWitness[] = [];
+  const duplicates: string[] = [];
+  const refused: string[] = [];
+  witnessHexes.forEach((witnessHex, i) => {
+    const witnesses = readVkeyWitnesses(witnessHex);
+    if (witnesses.length === 0) throw new Error(`Witness file ${i + 1} has no vkey witnesses`);
+    witnesses.forEach((witness) => {
+      const vkey = decodeVkeyWitness(witness);
+      if (present.has(vkey.publicKey)) {
+        duplicates.push(vkey.keyHash);
+      } else if (!needed.has(vkey.keyHash)) {
+        const inputs = options.utxos ? " or the payment key of a spent input" : "";
+        refused.push(`${vkey.keyHash} is not a required signer, a key of the transaction's native scripts${inputs}`);
+      } else if (!PublicKey.from_hex(vkey.publicKey).verify(message, Ed25519Signature.from_hex(vkey.signature))) {
+        refused.push(`${vkey.keyHash} signed a different transaction than ${txId}`);
+      } else {
+        present.add(vkey.publicKey);
+        vkeys.push(witness.to_hex());
+        added.push(vkey);
+      }
+    });
+  });
+  if (refused.length > 0) throw new Error(`Refusing witnesses: ${refused.join("; ")}`);
+
+  // Keep the set style of the existing vkeys, or else of the body's inputs (tag 258 from Conway on)
+  const tagged = existing ? existing.type === "tag" : getMapEntry(body, 0)?.type === "tag";
+  const vkeyEntry =
+    encodeCborHeader(0, VKEY_WITNESSES) + (tagged ? "d90102" : "") + encodeCborHeader(4, vkeys.length) + vkeys.join("");
+  const entries = witnessSet.entries.map(([key, value]) =>
+    value === existing ? vkeyEntry : rawHex(bytes, key) + rawHex(bytes, value),
+  );
+  if (!existing && vkeys.length > 0) entries.unshift(vkeyEntry);
+  const witnessSetHex = witnessSet.indefinite
+    ? `bf${entries.join("")}ff`
+    : encodeCborHeader(5, entries.length) + entries.join("");
+
+  const signed = new Set([...present].map((publicKey) => PublicKey.from_hex(publicKey).hash().to_hex()));
+  return {
+    txHex:
+      bytes.subarray(root.offset, witnessSet.offset).toString("hex") +
+      witnessSetHex +
+      bytes.subarray(witnessSet.end, root.end).toString("hex"),
+    txId,
+    added,
+    duplicates,
+    missing: decoded.requiredSigners.filter((hash) => !signed.has(hash)),
+  };
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { applyBlueprint, decodeWithBlueprint, parseBlueprint } from "./blueprint.js";
+import { compareTransactions } from "./compare.js";
+import { decodeTransaction } from "./decoder.js";
+import { SAMPLE_TX_HEX } from "./test-fixtures.js";
+
+const constructor = (title: string, index: number, fields: object[]) => ({
+  title,
+  dataType: "constructor",
+  index,
+  fields,
+});
+
+// Aiken-style blueprint matching the marketplace datum of the sample transaction
+const BLUEPRINT = parseBlueprint({
+  preamble: { title: "market", plutusVersion: "v2" },
+  validators: [
+    {
+      title: "market.spend",
+      datum: { title: "datum", schema: { $ref: "#/definitions/market~1Datum" } },
+      redeemer: { title: "redeemer", schema: { $ref: "#/definitions/market~1Redeemer" } },
+    },
+  ],
+  definitions: {
+    ByteArray: { dataType: "bytes" },
+    Int: { dataType: "integer" },
+    "List$market/Payout": { dataType: "list", items: { $ref: "#/definitions/market~1Payout" } },
+    "market/Datum": {
+      title: "Datum",
+      anyOf: [
+        constructor("Datum", 0, [
+          { title: "payouts", $ref: "#/definitions/List$market~1Payout" },
+          { title: "owner", $ref: "#/definitions/ByteArray" },
+        ]),
+      ],
+    },
+    "market/Payout": {
+      title: "Payout",
+      anyOf: [
+        constructor("Payout", 0, [
+          { title: "address", $ref: "#/definitions/Address" },
+          { title: "amount", $ref: "#/definitions/Int" },
+        ]),
+      ],
+    },
+    Address: {
+      title: "Address",
+      anyOf: [
+        constructor("Address", 0, [
+          { title: "payment_credential", $ref: "#/definitions/Credential" },
+          { title: "stake_credential", $ref: "#/definitions/Option$Referenced$Credential" },
+        ]),
+      ],
+    },
+    Credential: {
+      title: "Credential",
+      anyOf: [
+        constructor("VerificationKeyCredential", 0, [{ $ref: "#/definitions/ByteArray" }]),
+        constructor("ScriptCredential", 1, [{ $ref: "#/definitions/ByteArray" }]),
+      ],
+    },
+    "Option$Referenced$Credential": {
+      title: "Optional",
+      anyOf: [
+        constructor("Some", 0, [{ $ref: "#/definitions/Referenced$Credential" }]),
+        constructor("None", 1, []),
+      ],
+    },
+    "Referenced$Credential": {
+      title: "Referenced",
+      anyOf: [constructor("Inline", 0, [{ $ref: "#/definitions/Credential" }])],
+    },
+    "market/Redeemer": {
+      title: "Redeemer",
+      anyOf: [constructor("Buy", 0, []), constructor("WithdrawOrUpdate", 1, [])],
+    },
+  },
+});
+
+const SELLER = "c8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca3585428";
+
+describe("decodeWithBlueprint", () => {
+  it("names constructors and fields", () => {
+    const json = {
+      constructor: 0,
+      fields: [{ constructor: 1, fields: [{ bytes: "ab" }] }, { constructor: 1, fields: [] }],
+    };
+
+    const result = decodeWithBlueprint(json, BLUEPRINT, "Address");
+    expect(result).toEqual({
+      type: "Address",
+      value: { Address: { payment_credential: { ScriptCredential: ["ab"] }, stake_credential: "None" } },
+      errors: [],
+    });
+  });
+
+  it("uses the validator redeemer schema", () => {
+    const result = decodeWithBlueprint({ constructor: 1, fields: [] }, BLUEPRINT, "market.spend", "redeemer");
+    expect(result.value).toBe("WithdrawOrUpdate");
+  });
+
+  it("reports data that does not match the schema", () => {
+    const json = { constructor: 0, fields: [{ list: [] }, { int: 5 }] };
+
+    const result = decodeWithBlueprint(json, BLUEPRINT, "market.spend");
+    expect(result.errors).toEqual([{ path: "$.Datum.owner", message: "Expected bytes, got integer" }]);
+    expect(result.value).toEqual({ Datum: { payouts: [], owner: { int: 5 } } });
+  });
+
+  it("reports unknown constructors and types", () => {
+    expect(decodeWithBlueprint({ constructor: 2, fields: [] }, BLUEPRINT, "Redeemer").errors[0].message).toBe(
+      "Constructor 2 is not a variant of Redeemer",
+    );
+    expect(() => decodeWithBlueprint({}, BLUEPRINT, "Listing")).toThrow('Unknown blueprint type "Listing"');
+  });
+});
+
+describe("applyBlueprint", () => {
+  it("decodes witness datums of a transaction", () => {
+    const tx = applyBlueprint(decodeTransaction(SAMPLE_TX_HEX), BLUEPRINT, "market.spend");
+    const schema = tx.witnessSet.plutusData![0].schema!;
+
+    expect(schema.errors).toEqual([]);
+    expect(schema.value).toMatchObject({
+      Datum: {
+        payouts: [{ Payout: { amount: 176000000 } }, { Payout: { amount: 20000000 } }],
+        owner: SELLER,
+      },
+    });
+  });
+
+  it("lets comparisons report field names", () => {
+    const modified = SAMPLE_TX_HEX.replace("1a0a7d8c00", "1a0a7d8c01");
+    const tx1 = applyBlueprint(decodeTransaction(SAMPLE_TX_HEX), BLUEPRINT, "market.spend");
+    const tx2 = applyBlueprint(decodeTransaction(modified), BLUEPRINT, "market.spend");
+
+    expect(compareTransactions(tx1, tx2).differences).toMatchObject([
+      { path: "plutusData[0].Datum.payouts[0].Payout.amount", oldValue: 176000000, newValue: 176000001 },
+    ]);
+  });
+});
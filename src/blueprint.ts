@@ -0,0 +1,243 @@
+import type {
+  Blueprint,
+  BlueprintSchema,
+  BlueprintValidator,
+  DecodedTransaction,
+  SchemaDecoding,
+  SchemaMismatch,
+} from "./types.js";
+
+type DataPurpose = "datum" | "redeemer";
+
+/** DetailedSchema JSON as produced by CSL */
+type DetailedData = {
+  constructor?: number;
+  fields?: unknown[];
+  int?: number;
+  bytes?: string;
+  list?: unknown[];
+  map?: { k: unknown; v: unknown }[];
+};
+
+interface ResolvedType {
+  validator?: BlueprintValidator;
+  schema?: BlueprintSchema;
+}
+
+/**
+ * Parse a CIP-57 plutus.json blueprint
+ */
+export function parseBlueprint(json: unknown): Blueprint {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("Blueprint must be a JSON object");
+  }
+  const blueprint = json as Partial<Blueprint>;
+  if (!Array.isArray(blueprint.validators) && !blueprint.definitions) {
+    throw new Error("Not a CIP-57 blueprint: expected validators or definitions");
+  }
+  return { ...blueprint, validators: blueprint.validators ?? [], definitions: blueprint.definitions ?? {} };
+}
+
+/**
+ * Find a type by validator title, definition name or definition title
+ */
+function resolveType(blueprint: Blueprint, type: string): ResolvedType {
+  const validator = blueprint.validators.find((v) => v.title === type);
+  if (validator) return { validator };
+  if (blueprint.definitions[type]) return { schema: blueprint.definitions[type] };
+
+  const byTitle = Object.values(blueprint.definitions).filter((schema) => schema.title === type);
+  if (byTitle.length === 1) return { schema: byTitle[0] };
+  if (byTitle.length > 1) {
+    throw new Error(`Blueprint type "${type}" is ambiguous; use the definition name`);
+  }
+  throw new Error(`Unknown blueprint type "${type}"; expected a validator title or definition name`);
+}
+
+function schemaFor(resolved: ResolvedType, purpose: DataPurpose): BlueprintSchema | null {
+  return resolved.validator ? (resolved.validator[purpose]?.schema ?? null) : (resolved.schema ?? null);
+}
+
+/**
+ * Follow $ref pointers ("#/definitions/market~1Listing") to the schema they name
+ */
+function dereference(blueprint: Blueprint, schema: BlueprintSchema): BlueprintSchema | null {
+  let current: BlueprintSchema | undefined = schema;
+  for (let depth = 0; current?.$ref && depth < 32; depth++) {
+    const name: string = current.$ref.replace(/^#\/definitions\//, "").replace(/~1/g, "/").replace(/~0/g, "~");
+    current = blueprint.definitions[name];
+  }
+  return current && !current.$ref ? current : null;
+}
+
+function describeData(data: DetailedData): string {
+  if (data.constructor !== undefined && Array.isArray(data.fields)) return `constructor ${data.constructor}`;
+  if (data.int !== undefined) return "integer";
+  if (data.bytes !== undefined) return "bytes";
+  if (data.list !== undefined) return "list";
+  if (data.map !== undefined) return "map";
+  return "unknown data";
+}
+
+/**
+ * Decode DetailedSchema JSON against a schema, recording mismatches.
+ * Nodes that don't match keep their raw JSON.
+ */
+function decodeNode(
+  blueprint: Blueprint,
+  data: unknown,
+  schemaRef: BlueprintSchema,
+  path: string,
+  errors: SchemaMismatch[],
+): unknown {
+  const schema = dereference(blueprint, schemaRef);
+  if (!schema) {
+    errors.push({ path, message: `Unresolved schema reference ${schemaRef.$ref}` });
+    return data;
+  }
+  const node = (data ?? {}) as DetailedData;
+  const mismatch = (expected: string) => {
+    errors.push({ path, message: `Expected ${expected}, got ${describeData(node)}` });
+    return data;
+  };
+
+  if (schema.anyOf) {
+    if (!Array.isArray(node.fields)) return mismatch(`a constructor of ${schema.title ?? "the schema"}`);
+    const alternative = schema.anyOf.find((alt) => (dereference(blueprint, alt)?.index ?? 0) === node.constructor);
+    if (!alternative) {
+      errors.push({ path, message: `Constructor ${node.constructor} is not a variant of ${schema.title ?? "the schema"}` });
+      return data;
+    }
+    return decodeConstructor(blueprint, node, dereference(blueprint, alternative)!, path, errors);
+  }
+
+  switch (schema.dataType) {
+    case "integer":
+      return node.int !== undefined ? node.int : mismatch("integer");
+    case "bytes":
+      return node.bytes !== undefined ? node.bytes : mismatch("bytes");
+    case "list": {
+      if (!Array.isArray(node.list)) return mismatch("list");
+      const items = schema.items;
+      if (Array.isArray(items)) {
+        // Tuple: one schema per position
+        if (items.length !== node.list.length) {
+          errors.push({ path, message: `Expected a ${items.length}-tuple, got ${node.list.length} items` });
+          return data;
+        }
+        return node.list.map((item, i) => decodeNode(blueprint, item, items[i], `${path}[${i}]`, errors));
+      }
+      return items ? node.list.map((item, i) => decodeNode(blueprint, item, items, `${path}[${i}]`, errors)) : node.list;
+    }
+    case "map": {
+      if (!Array.isArray(node.map)) return mismatch("map");
+      const entries = node.map.map(({ k, v }, i) => ({
+        key: schema.keys ? decodeNode(blueprint, k, schema.keys, `${path}.keys[${i}]`, errors) : k,
+        value: schema.values ? decodeNode(blueprint, v, schema.values, `${path}[${i}]`, errors) : v,
+      }));
+      // Objects read best when every key is a plain string or number
+      return entries.every((e) => typeof e.key === "string" || typeof e.key === "number")
+        ? Object.fromEntries(entries.map((e) => [String(e.key), e.value]))
+        : entries;
+    }
+    case "constructor":
+      if (!Array.isArray(node.fields)) return mismatch("constructor");
+      if (node.constructor !== (schema.index ?? 0)) return mismatch(`constructor ${schema.index ?? 0}`);
+      return decodeConstructor(blueprint, node, schema, path, errors);
+    default:
+      // No dataType: opaque Data (or a builtin "#..." type), kept as is
+      return data;
+  }
+}
+
+/**
+ * Constructors decode to { Title: { field: value } }, or { Title: [values] }
+ * when fields are untitled; constructors without fields decode to their title
+ */
+function decodeConstructor(
+  blueprint: Blueprint,
+  node: DetailedData,
+  schema: BlueprintSchema,
+  path: string,
+  errors: SchemaMismatch[],
+): unknown {
+  const title = schema.title ?? `Constructor${node.constructor}`;
+  const fieldSchemas = schema.fields ?? [];
+  const fields = node.fields ?? [];
+  if (fields.length !== fieldSchemas.length) {
+    errors.push({ path, message: `${title} expects ${fieldSchemas.length} fields, got ${fields.length}` });
+    return node;
+  }
+  if (fieldSchemas.length === 0) return title;
+
+  const named = fieldSchemas.every((field) => field.title);
+  const values = fields.map((field, i) =>
+    decodeNode(
+      blueprint,
+      field,
+      fieldSchemas[i],
+      named ? `${path}.${title}.${fieldSchemas[i].title}` : `${path}.${title}[${i}]`,
+      errors,
+    ),
+  );
+  return {
+    [title]: named ? Object.fromEntries(values.map((value, i) => [fieldSchemas[i].title, value])) : values,
+  };
+}
+
+function decodeSchema(blueprint: Blueprint, json: unknown, schema: BlueprintSchema, type: string): SchemaDecoding {
+  const errors: SchemaMismatch[] = [];
+  const value = decodeNode(blueprint, json, schema, "$", errors);
+  return { type, value, errors };
+}
+
+/**
+ * Decode plutus data (DetailedSchema JSON) as a blueprint type: a validator
+ * title (using its datum or redeemer schema) or a definition name
+ */
+export function decodeWithBlueprint(
+  json: unknown,
+  blueprint: Blueprint,
+  type: string,
+  purpose: DataPurpose = "datum",
+): SchemaDecoding {
+  const schema = schemaFor(resolveType(blueprint, type), purpose);
+  if (!schema) {
+    throw new Error(`Validator "${type}" has no ${purpose} schema`);
+  }
+  return decodeSchema(blueprint, json, schema, type);
+}
+
+/**
+ * Decode the witness datums, inline output datums and redeemers of a
+ * transaction with a blueprint type. A validator title applies its datum and
+ * redeemer schemas; a definition name applies to datums only.
+ */
+export function applyBlueprint(tx: DecodedTransaction, blueprint: Blueprint, type: string): DecodedTransaction {
+  const resolved = resolveType(blueprint, type);
+  const datumSchema = schemaFor(resolved, "datum");
+  const redeemerSchema = resolved.validator ? schemaFor(resolved, "redeemer") : null;
+  const decode = (json: unknown, schema: BlueprintSchema) => decodeSchema(blueprint, json, schema, type);
+
+  return {
+    ...tx,
+    outputs: tx.outputs.map((output) =>
+      output.datum?.type === "inline" && datumSchema
+        ? { ...output, datum: { ...output.datum, schema: decode(output.datum.json, datumSchema) } }
+        : output,
+    ),
+    witnessSet: {
+      ...tx.witnessSet,
+      ...(tx.witnessSet.plutusData && {
+        plutusData: tx.witnessSet.plutusData.map((datum) =>
+          datumSchema ? { ...datum, schema: decode(datum.json, datumSchema) } : datum,
+        ),
+      }),
+      ...(tx.witnessSet.redeemers && {
+        redeemers: tx.witnessSet.redeemers.map((redeemer) =>
+          redeemerSchema ? { ...redeemer, dataSchema: decode(redeemer.dataJson, redeemerSchema) } : redeemer,
+        ),
+      }),
+    },
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Minimal CBOR reader that keeps the byte span of every item, so the exact
+ * encoding of a section can be hashed or inspected after decoding.
+ */
+
+interface CborSpan {
+  /** Byte offset of the item's first header byte */
+  offset: number;
+  /** Byte offset just past the item */
+  end: number;
+}
+
+export type CborNode = CborSpan &
+  (
+    | { type: "uint" | "nint"; value: bigint }
+    | { type: "bytes"; value: Uint8Array; indefinite: boolean }
+    | { type: "text"; value: string; indefinite: boolean }
+    | { type: "array"; items: CborNode[]; indefinite: boolean }
+    | { type: "map"; entries: Array<[CborNode, CborNode]>; indefinite: boolean }
+    | { type: "tag"; tag: bigint; item: CborNode }
+    | { type: "simple"; value: boolean | null | undefined | number }
+    | { type: "float"; value: number }
+  );
+
+const ARGUMENT_SIZES: Record<number, number> = { 24: 1, 25: 2, 26: 4, 27: 8 };
+
+class CborReader {
+  constructor(
+    private readonly bytes: Uint8Array,
+    public pos: number = 0,
+  ) {}
+
+  private byte(): number {
+    if (this.pos >= this.bytes.length) {
+      throw new Error(`Unexpected end of CBOR at byte ${this.pos}`);
+    }
+    return this.bytes[this.pos++];
+  }
+
+  private argument(info: number): bigint {
+    if (info < 24) return BigInt(info);
+    const size = ARGUMENT_SIZES[info];
+    if (!size) throw new Error(`Invalid CBOR additional info ${info} at byte ${this.pos - 1}`);
+    let value = 0n;
+    for (let i = 0; i < size; i++) value = (value << 8n) | BigInt(this.byte());
+    return value;
+  }
+
+  private isBreak(): boolean {
+    if (this.bytes[this.pos] !== 0xff) return false;
+    this.pos++;
+    return true;
+  }
+
+  private chunks(major: number, offset: number): Uint8Array[] {
+    const chunks: Uint8Array[] = [];
+    while (!this.isBreak()) {
+      const chunk = this.read();
+      if (chunk.type === "bytes" && major === 2) {
+        chunks.push(chunk.value);
+      } else if (chunk.type === "text" && major === 3) {
+        chunks.push(Buffer.from(chunk.value, "utf-8"));
+      } else {
+        throw new Error(`Invalid chunk in indefinite-length string at byte ${offset}`);
+      }
+    }
+    return chunks;
+  }
+
+  read(): CborNode {
+    const offset = this.pos;
+    const initial = this.byte();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+    const indefinite = info === 31 && major >= 2 && major <= 5;
+    const arg = indefinite || major === 7 ? 0n : this.argument(info);
+    const span = () => ({ offset, end: this.pos });
+
+    switch (major) {
+      case 0:
+        return { type: "uint", value: arg, ...span() };
+      case 1:
+        return { type: "nint", value: -1n - arg, ...span() };
+      case 2:
+      case 3: {
+        let data: Uint8Array;
+        if (indefinite) {
+          data = Buffer.concat(this.chunks(major, offset));
+        } else {
+          const start = this.pos;
+          this.pos += Number(arg);
+          if (this.pos > this.bytes.length) throw new Error(`Unexpected end of CBOR at byte ${start}`);
+          data = this.bytes.subarray(start, this.pos);
+        }
+        return major === 2
+          ? { type: "bytes", value: data, indefinite, ...span() }
+          : { type: "text", value: Buffer.from(data).toString("utf-8"), indefinite, ...span() };
+      }
+      case 4: {
+        const items: CborNode[] = [];
+        if (indefinite) {
+          while (!this.isBreak()) items.push(this.read());
+        } else {
+          for (let i = 0n; i < arg; i++) items.push(this.read());
+        }
+        return { type: "array", items, indefinite, ...span() };
+      }
+      case 5: {
+        const entries: Array<[CborNode, CborNode]> = [];
+        if (indefinite) {
+          while (!this.isBreak()) entries.push([this.read(), this.read()]);
+        } else {
+          for (let i = 0n; i < arg; i++) entries.push([this.read(), this.read()]);
+        }
+        return { type: "map", entries, indefinite, ...span() };
+      }
+      case 6:
+        return { type: "tag", tag: arg, item: this.read(), ...span() };
+      default:
+        return this.simple(info, offset);
+    }
+  }
+
+  private simple(info: number, offset: number): CborNode {
+    const span = () => ({ offset, end: this.pos });
+    if (info < 20) return { type: "simple", value: info, ...span() };
+    if (info === 20 || info === 21) return { type: "simple", value: info === 21, ...span() };
+    if (info === 22) return { type: "simple", value: null, ...span() };
+    if (info === 23) return { type: "simple", value: undefined, ...span() };
+    if (info === 24) return { type: "simple", value: this.byte(), ...span() };
+
+    const size = ARGUMENT_SIZES[info];
+    if (!size) throw new Error(`Invalid CBOR simple value ${info} at byte ${offset}`);
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.pos, size);
+    this.pos += size;
+    const value =
+      size === 2 ? halfToFloat(view.getUint16(0)) : size === 4 ? view.getFloat32(0) : view.getFloat64(0);
+    return { type: "float", value, ...span() };
+  }
+}
+
+function halfToFloat(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 31) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Decode a single CBOR item from bytes, rejecting trailing data
+ */
+export function decodeCbor(bytes: Uint8Array): CborNode {
+  const reader = new CborReader(bytes);
+  const node = reader.read();
+  if (reader.pos !== bytes.length) {
+    throw new Error(`Trailing bytes after CBOR item at byte ${reader.pos}`);
+  }
+  return node;
+}
+
+/**
+ * Decode the CBOR item starting at a byte offset, ignoring what follows it
+ */
+export function decodeCborAt(bytes: Uint8Array, offset: number): CborNode {
+  return new CborReader(bytes, offset).read();
+}
+
+/**
+ * Look up a map entry by unsigned integer key (the key type of every ledger map)
+ */
+export function getMapEntry(node: CborNode | undefined, key: number): CborNode | undefined {
+  if (node?.type !== "map") return undefined;
+  return node.entries.find(([k]) => k.type === "uint" && k.value === BigInt(key))?.[1];
+}
+
+/**
+ * Hex of the exact bytes an item was encoded with
+ */
+export function rawHex(bytes: Uint8Array, node: CborNode): string {
+  return Buffer.from(bytes.subarray(node.offset, node.end)).toString("hex");
+}
+
+/**
+ * Encode a CBOR header for a major type and argument, as hex
+ */
+export function encodeCborHeader(major: number, value: number | bigint): string {
+  const arg = BigInt(value);
+  const type = major << 5;
+  const hex = (n: number, width: number) => n.toString(16).padStart(width, "0");
+  if (arg < 24n) return hex(type | Number(arg), 2);
+  if (arg < 0x100n) return hex(type | 24, 2) + hex(Number(arg), 2);
+  if (arg < 0x10000n) return hex(type | 25, 2) + hex(Number(arg), 4);
+  if (arg < 0x100000000n) return hex(type | 26, 2) + hex(Number(arg), 8);
+  return hex(type | 27, 2) + arg.toString(16).padStart(16, "0");
+}
+
+/**
+ * Encode an integer as CBOR (major type 0 or 1), as hex
+ */
+export function encodeCborInt(value: number | bigint): string {
+  const n = BigInt(value);
+  return n >= 0n ? encodeCborHeader(0, n) : encodeCborHeader(1, -1n - n);
+}
@@ -1,24 +1,130 @@
 #!/usr/bin/env node
 
-import { readFileSync, existsSync } from "fs";
-import { decodeTransaction, decodeWitnessSet, decodePlutusData } from "./decoder.js";
-import { compareTransactions } from "./compare.js";
+import { readFileSync, existsSync, writeFileSync } from "fs";
+import { Transaction } from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { decodeTransaction, decodeWitnessSet, decodePlutusData, toArray } from "./decoder.js";
+import { compareTransactions, compareWitnessSets, formatDifferences } from "./compare.js";
+import { compareDirectories, formatJUnitReport } from "./compare-dir.js";
+import { parseComparisonPolicy } from "./policy.js";
+import { verifyScriptDataHash } from "./integrity.js";
+import { parseProtocolParameters } from "./params.js";
+import { fetchUtxos, fileUtxoProvider, parseUtxos, resolveInputs, resolveReferenceScripts } from "./utxo.js";
+import { addressBalances, checkTotalCollateral, validateTransaction } from "./validate.js";
+import { evaluateTransaction } from "./evaluate.js";
+import { analyzeFee } from "./fee.js";
+import { evaluateNativeScripts } from "./native-script.js";
+import { verifySignatures } from "./signatures.js";
+import { assembleTransaction } from "./assemble.js";
+import { readInput } from "./input.js";
+import { disassembleScript } from "./uplc.js";
+import { cborDiagnostic, compareEncodings } from "./diagnostic.js";
+import { buildScriptContext, buildScriptContexts } from "./script-context.js";
+import { SLOT_CONFIGS, describeValidityInterval, parseSlotConfig, parseTime } from "./time.js";
+import { applyBlueprint, decodeWithBlueprint, parseBlueprint } from "./blueprint.js";
+import type {
+  AssembledTransaction,
+  Blueprint,
+  CollateralCheck,
+  CompareOptions,
+  DecodedCredential,
+  DecodedInput,
+  DecodedOutput,
+  DecodedValue,
+  DecodedNativeScript,
+  DifferenceSection,
+  DirectoryComparison,
+  EncodingDifference,
+  FeeAnalysis,
+  NativeScriptCheck,
+  NativeScriptEvaluation,
+  NetworkName,
+  PlutusLanguage,
+  ScriptDataHashVerification,
+  SchemaDecoding,
+  ScriptContext,
+  SignatureVerification,
+  SlotConfig,
+  SlotTime,
+  TransactionEvaluation,
+  ValidationReport,
+  ValidityInterval,
+} from "./types.js";
 
 /**
- * Read hex from a file or return the string as-is if not a file path.
- * Supports:
- *   - Direct hex string
- *   - File path (reads file contents, trims whitespace)
- *   - Stdin via "-" (TODO: future enhancement)
+ * Read and parse a JSON file (protocol parameters, UTxO sets, ...)
  */
-function readHexInput(input: string): string {
-  // Check if it's a file path
-  if (existsSync(input)) {
-    const content = readFileSync(input, "utf-8").trim();
-    return content;
+function readJsonFile(path: string): unknown {
+  if (!existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
   }
-  // Otherwise treat as raw hex
-  return input.trim();
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+/** Options that take a value, so their value is not a positional argument */
+const VALUE_OPTIONS = [
+  "--params",
+  "--languages",
+  "--utxos",
+  "--slot",
+  "--blueprint",
+  "--type",
+  "--hash",
+  "--network",
+  "--slot-config",
+  "--time",
+  "--section",
+  "--language",
+  "--junit",
+  "--policy",
+];
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Load --blueprint and the --type to decode with; a blueprint with a single
+ * validator needs no --type
+ */
+function getBlueprintType(args: string[]): { blueprint: Blueprint; type: string } | null {
+  const path = getOption(args, "--blueprint");
+  if (!path) return null;
+  const blueprint = parseBlueprint(readJsonFile(path));
+  const type = getOption(args, "--type") ?? (blueprint.validators.length === 1 ? blueprint.validators[0].title : undefined);
+  if (!type) {
+    throw new Error("--type is required when the blueprint has more than one validator");
+  }
+  return { blueprint, type };
+}
+
+/**
+ * --match-by-content and the --policy config file
+ */
+function getCompareOptions(args: string[]): CompareOptions {
+  const policyPath = getOption(args, "--policy");
+  return {
+    matchByContent: args.includes("--match-by-content"),
+    ...(policyPath && { policy: parseComparisonPolicy(readJsonFile(policyPath)) }),
+  };
+}
+
+/**
+ * Slot configuration from --slot-config, or the --network preset (default mainnet)
+ */
+function getSlotConfig(args: string[]): SlotConfig {
+  const path = getOption(args, "--slot-config");
+  if (path) return parseSlotConfig(readJsonFile(path));
+  const network = getOption(args, "--network") ?? "mainnet";
+  if (!(network in SLOT_CONFIGS)) {
+    throw new Error(`Unknown network "${network}"; expected ${Object.keys(SLOT_CONFIGS).join(", ")}`);
+  }
+  return SLOT_CONFIGS[network as NetworkName];
+}
+
+function getValidityInterval(args: string[], tx: ReturnType<typeof decodeTransaction>): ValidityInterval {
+  const time = getOption(args, "--time");
+  return describeValidityInterval(tx, getSlotConfig(args), time === undefined ? undefined : parseTime(time));
 }
 
 const HELP = `
@@ -37,10 +143,65 @@ COMMANDS:
   decode-witness <witness-hex>       Decode a witness set
   decode-datum <datum-hex>           Decode plutus data (datum/redeemer)
   compare <tx1-hex> <tx2-hex>        Compare two transactions
+  compare-dir <dir1> <dir2>          Compare each transaction file with the
+                                     file of the same name in the other
+                                     directory, with a summary report; a
+                                     pair fails on errors and warnings
   compare-witness <ws1-hex> <ws2-hex> Compare two witness sets
+  verify-integrity <tx-hex>          Recompute and verify the script data hash
+  validate <tx-hex>                  Run phase-1 ledger checks against a UTxO set
+  evaluate <tx-hex>                  Run the Plutus scripts and report the
+                                     execution units each redeemer needs, and
+                                     the error and traces of a failing one
+  disassemble-script <script-hex>    Pretty-print a Plutus script as UPLC
+  cbor <hex>                         Show CBOR in diagnostic notation with
+                                     byte offsets
+  script-context <tx-hex>            Build the ScriptContext each redeemer's
+                                     script receives, as JSON and CBOR
+  assemble <tx-hex> <witness...>     Merge vkey witnesses (CIP-30 witness sets,
+                                     cardano-cli witness files) into a
+                                     transaction and print the signed hex
 
 OPTIONS:
   --json                             Output as JSON (default: pretty print)
+  --blueprint <file>                 CIP-57 plutus.json to decode datums and
+                                     redeemers with field names
+  --type <name>                      Blueprint validator title or definition
+                                     name (default: the only validator)
+  --redeemer                         decode-datum: use the validator's
+                                     redeemer schema instead of its datum
+  --redeemer <n>                     script-context: only the redeemer at
+                                     position n in the witness set
+  --language <name>                  script-context: build the context a
+                                     PlutusV1, V2 or V3 script would see
+  --match-by-content                 Compare datums by hash, redeemers by
+                                     (tag, index) and scripts by hash instead
+                                     of by position
+  --policy <file>                    compare, compare-dir: JSON with paths to
+                                     ignore, fee and exUnits tolerances (%)
+                                     and the inputReordering severity (use
+                                     info to pass compare-dir pairs)
+  --params <file>                    Protocol parameters JSON (cost models,
+                                     fee coefficients)
+  --languages <list>                 Plutus languages for language views,
+                                     e.g. PlutusV2,PlutusV3 (default: from
+                                     witness set scripts)
+  --utxos <file>                     UTxO set JSON: keyed by txHash#index
+                                     (cardano-cli query utxo format), Kupo
+                                     matches or Ogmios UTxOs
+  --slot <n>                         Current slot for validity interval checks
+  --network <name>                   Slot times of mainnet, preprod or preview
+                                     (default: mainnet)
+  --slot-config <file>               Custom slot times: JSON with zeroTime (ms
+                                     or ISO date), zeroSlot and slotLength (ms)
+  --time <date>                      Reference time (ISO date or POSIX ms) to
+                                     flag expired or not yet valid transactions
+  --hash <script-hash>               disassemble-script: take the script with
+                                     this hash from a transaction's witness set
+  --junit <file>                     compare-dir: also write a JUnit XML
+                                     report for CI
+  --section <path>                   cbor: show one section of a transaction,
+                                     e.g. witnessSet.redeemers, body.outputs[0]
   --help, -h                         Show this help message
 
 EXAMPLES:
@@ -55,16 +216,67 @@ EXAMPLES:
   ctd compare ./tx1.hex ./tx2.hex
   ctd compare 84a500... 84a500...
 
+  # Ignore datums and redeemers emitted in a different order
+  ctd compare ./tx1.hex ./tx2.hex --match-by-content
+
+  # Ignore change amounts and allow 5% fee and exUnits variance
+  ctd compare ./tx1.hex ./tx2.hex --policy ./compare-policy.json
+
+  # Compare two builders' outputs for the same fixtures in CI
+  ctd compare-dir ./old-builder ./new-builder --junit ./compare-report.xml
+
+  # Decode a cardano-cli text envelope from stdin
+  cardano-cli conway transaction sign ... --out-file /dev/stdout | ctd decode -
+
   # Decode a plutus datum
   ctd decode-datum d8799f9fd8799fd8799f...
 
+  # Decode a datum with field names from an Aiken blueprint
+  ctd decode-datum ./datum.hex --blueprint ./plutus.json --type market.spend
+
+  # Check whether a preprod transaction has expired
+  ctd decode ./tx.hex --network preprod --time 2024-06-01T12:00:00Z
+
+  # Show what each input spends and the net balance per address (Kupo dump)
+  curl "http://localhost:1442/matches/$ADDRESS?unspent&resolve_hashes" > utxos.json
+  ctd decode ./tx.hex --utxos ./utxos.json
+
+  # Check the fee against the minimum fee, with a size breakdown
+  ctd decode ./tx.hex --params ./protocol-params.json --utxos ./utxos.json
+
+  # Explain a script integrity hash mismatch
+  ctd verify-integrity ./tx.hex --params ./protocol-params.json
+
+  # Check a transaction offline before submitting
+  ctd validate ./tx.hex --utxos ./utxos.json --params ./protocol-params.json
+
+  # Check redeemer execution units and see script traces
+  ctd evaluate ./tx.hex --utxos ./utxos.json --params ./protocol-params.json
+
+  # Check which compiled validator ended up in a transaction
+  ctd disassemble-script ./tx.hex --hash 3a888d65f16790950a72daee1f63aa05add6d268434107cfa5b67712
+
+  # See the TxInfo the first redeemer's validator received
+  ctd script-context ./tx.hex --utxos ./utxos.json --redeemer 0
+
+  # Collect the treasury signers' witnesses into the transaction
+  ctd assemble ./tx.hex ./alice.witness ./bob.witness > ./signed.hex
+
+  # See how the redeemers are encoded (map vs array, definite vs indefinite)
+  ctd cbor ./tx.hex --section witnessSet.redeemers
+
   # Output as JSON for piping
   ctd decode ./tx.hex --json | jq '.witnessSet.plutusData'
 
-FILE INPUT:
-  Any argument that is a valid file path will be read as a file.
-  Files should contain raw hex (no 0x prefix), whitespace is trimmed.
-  This bypasses shell argument length limits for large transactions.
+INPUT FORMATS:
+  Any argument that is a valid file path will be read as a file, and "-"
+  reads stdin. The format is detected automatically:
+    - Raw hex, with or without a 0x prefix (whitespace is ignored)
+    - Base64
+    - cardano-cli TextEnvelope JSON ({"type": "Tx ConwayEra", "cborHex": ...})
+    - A JSON hex string, e.g. a saved CIP-30 signTx witness set response
+    - Binary CBOR files (e.g. tx.cbor)
+  Files bypass shell argument length limits for large transactions.
 `;
 
 function printHelp() {
@@ -75,74 +287,441 @@ function printJson(data: unknown) {
   console.log(JSON.stringify(data, null, 2));
 }
 
-function printTransaction(decoded: ReturnType<typeof decodeTransaction>, label?: string) {
+function printSchema(schema: SchemaDecoding, indent: string) {
+  console.log(`${indent}${schema.type}: ${JSON.stringify(schema.value)}`);
+  schema.errors.forEach((e) => console.log(`${indent}⚠️  ${e.path}: ${e.message}`));
+}
+
+function formatCredential(cred: DecodedCredential | null): string {
+  return cred ? `${cred.type}:${cred.hash}` : "none";
+}
+
+function printAuxiliaryData(decoded: ReturnType<typeof decodeTransaction>) {
+  const { auxiliaryData, auxiliaryDataHash } = decoded;
+  if (!auxiliaryData && !auxiliaryDataHash) return;
+
+  console.log("\nAuxiliary Data:");
+  console.log(`  Declared Hash: ${auxiliaryDataHash ?? "none"}`);
+  console.log(`  Computed Hash: ${auxiliaryData?.hash ?? "none (no auxiliary data)"}`);
+  if (auxiliaryData?.hash !== auxiliaryDataHash) {
+    console.log("  ❌ Auxiliary data hash DIFFERS");
+  }
+  if (!auxiliaryData) return;
+
+  auxiliaryData.messages?.forEach((message) => console.log(`  Message: ${message}`));
+  auxiliaryData.nfts?.forEach((nft) => {
+    console.log(`  NFT ${nft.policyId}.${nft.assetName}: ${JSON.stringify(nft.metadata)}`);
+  });
+  Object.entries(auxiliaryData.metadata).forEach(([label, value]) => {
+    console.log(`  [${label}] ${JSON.stringify(value)}`);
+  });
+}
+
+function printFeeAnalysis(analysis: FeeAnalysis) {
+  const { size } = analysis;
+  console.log("\nSize & Fee:");
+  console.log(`  Total: ${size.total} bytes`);
+  console.log(`  Body: ${size.body} bytes`);
+  console.log(`  Witness Set: ${size.witnessSet} bytes`);
+  Object.entries(size.witnessSetSections).forEach(([section, bytes]) => console.log(`    ${section}: ${bytes} bytes`));
+  console.log(`  Auxiliary Data: ${size.auxiliaryData} bytes`);
+  console.log(`  Reference Scripts: ${size.referenceScripts === null ? "unknown (needs --utxos)" : `${size.referenceScripts} bytes`}`);
+
+  if (!analysis.minFee) {
+    console.log(`  Minimum Fee: not computed (${analysis.unavailable})`);
+    return;
+  }
+  const { minFee, difference } = analysis;
+  console.log(`  Minimum Fee: ${minFee.total} lovelace`);
+  console.log(`    Linear (size): ${minFee.linear}`);
+  console.log(`    Script execution: ${minFee.scripts}`);
+  console.log(`    Reference scripts: ${minFee.referenceScripts}`);
+  if (difference! < 0) {
+    console.log(`  ❌ Underpaid by ${-difference!} lovelace`);
+  } else {
+    console.log(`  ${difference === 0 ? "✅ Exact fee" : `Overpaid by ${difference} lovelace`}`);
+  }
+}
+
+function formatSlotTime(slotTime: SlotTime | null): string {
+  return slotTime ? `${slotTime.slot} (${slotTime.utc})` : "none";
+}
+
+function printValidityStatus(interval: ValidityInterval, indent: string = "") {
+  if (interval.status === "expired") {
+    console.log(`${indent}⚠️  Expired: TTL passed at ${interval.ttl!.utc}`);
+  } else if (interval.status === "notYetValid") {
+    console.log(`${indent}⚠️  Not valid yet: validity starts at ${interval.validityStart!.utc}`);
+  }
+}
+
+function printOutput(output: DecodedOutput) {
+  console.log(`  [${output.index}] ${output.address.bech32}`);
+  printOutputDetails(output);
+}
+
+/** Credentials, value, datum and reference script of an output */
+function printOutputDetails(output: DecodedOutput) {
+  console.log(
+    `      Payment: ${formatCredential(output.address.paymentCredential)}  Stake: ${formatCredential(output.address.stakeCredential)}`,
+  );
+  printValueLines(output.value, "      ");
+  if (output.datum?.type === "hash") {
+    const { witnessIndex } = output.datum;
+    const witness =
+      witnessIndex === undefined
+        ? ""
+        : witnessIndex === null
+          ? " (⚠️  not in witness set)"
+          : ` (witness datum [${witnessIndex}])`;
+    console.log(`      Datum Hash: ${output.datum.hash}${witness}`);
+  } else if (output.datum?.type === "inline") {
+    console.log(`      Inline Datum: ${output.datum.hash}`);
+    console.log(`        ${output.datum.hex.slice(0, 60)}...`);
+    if (output.datum.schema) printSchema(output.datum.schema, "        ");
+  }
+  if (output.referenceScript) {
+    console.log(`      Reference Script: ${output.referenceScript.hash} (${output.referenceScript.language})`);
+  }
+  if (output.cip68) {
+    console.log(`      CIP-68 Metadata (v${output.cip68.version}): ${JSON.stringify(output.cip68.metadata)}`);
+  }
+}
+
+function printInput(input: DecodedInput, i: number) {
+  console.log(`  [${i}] ${input.txHash}#${input.index}`);
+  if (input.output === null) {
+    console.log("      ⚠️  Not in the UTxO set");
+  } else if (input.output) {
+    console.log(`      ${input.output.address.bech32}`);
+    printOutputDetails(input.output);
+  }
+}
+
+function printValueLines(value: DecodedValue, indent: string) {
+  console.log(`${indent}Lovelace: ${value.lovelace}`);
+  Object.entries(value.assets).forEach(([policyId, assets]) => {
+    Object.entries(assets).forEach(([name, quantity]) => console.log(`${indent}${policyId}.${name}: ${quantity}`));
+  });
+}
+
+/** Net value per address, once spent inputs are resolved */
+function printAddressBalances(decoded: ReturnType<typeof decodeTransaction>) {
+  if (!decoded.inputs.some((input) => input.output)) return;
+  console.log("\nNet Balance by Address:");
+  const unresolved = decoded.inputs.filter((input) => input.output === null).length;
+  if (unresolved > 0) {
+    console.log(`  ⚠️  Incomplete: ${unresolved} spent input(s) not in the UTxO set`);
+  }
+  addressBalances(decoded).forEach((balance) => {
+    console.log(`  ${balance.address}`);
+    printValueLines(balance.net, "      ");
+  });
+}
+
+function printCollateralCheck(check: CollateralCheck) {
+  if (check.missing.length > 0) {
+    console.log(`  ⚠️  Collateral inputs not in the UTxO set: ${check.missing.join(", ")}`);
+  } else if (check.consistent === null) {
+    console.log(`  Forfeited if a script fails: ${check.forfeited} lovelace (inputs ${check.inputs} - return ${check.returned})`);
+  } else if (check.consistent) {
+    console.log("  ✅ Total collateral matches the collateral inputs minus the return");
+  } else {
+    console.log(
+      `  ❌ Total collateral ${check.declared} DIFFERS from the collateral inputs minus the return: ` +
+        `${check.inputs} - ${check.returned} = ${check.forfeited}`,
+    );
+  }
+}
+
+function printTransaction(
+  decoded: ReturnType<typeof decodeTransaction>,
+  options: {
+    label?: string;
+    feeAnalysis?: FeeAnalysis;
+    validityInterval?: ValidityInterval;
+    collateralCheck?: CollateralCheck;
+  } = {},
+) {
+  const { label, feeAnalysis, validityInterval, collateralCheck } = options;
   if (label) {
     console.log(`\n--- ${label} ---\n`);
   }
+  console.log("Transaction ID:", decoded.txHash);
   console.log("Script Data Hash:", decoded.scriptDataHash ?? "none");
   console.log("Inputs:", decoded.inputCount);
   console.log("Outputs:", decoded.outputCount);
   console.log("Fee:", decoded.fee, "lovelace");
-  console.log("TTL:", decoded.ttl ?? "none");
-  console.log("Validity Start:", decoded.validityStart ?? "none");
+  if (validityInterval) {
+    console.log("TTL:", formatSlotTime(validityInterval.ttl));
+    console.log("Validity Start:", formatSlotTime(validityInterval.validityStart));
+    printValidityStatus(validityInterval);
+  } else {
+    console.log("TTL:", decoded.ttl ?? "none");
+    console.log("Validity Start:", decoded.validityStart ?? "none");
+  }
   console.log("Required Signers:", decoded.requiredSigners.length > 0 ? decoded.requiredSigners : "none");
 
   console.log("\nInputs (ordered):");
-  decoded.inputs.forEach((input, i) => {
-    console.log(`  [${i}] ${input.txHash}#${input.index}`);
-  });
+  decoded.inputs.forEach(printInput);
+
+  console.log("\nOutputs:");
+  decoded.outputs.forEach(printOutput);
+  printAddressBalances(decoded);
+
+  if (decoded.referenceInputs.length > 0) {
+    console.log("\nReference Inputs:");
+    decoded.referenceInputs.forEach(printInput);
+  }
+
+  if (decoded.collateral.length > 0) {
+    console.log("\nCollateral Inputs:");
+    decoded.collateral.forEach(printInput);
+  }
+  if (decoded.collateralReturn) {
+    console.log("\nCollateral Return:");
+    printOutput(decoded.collateralReturn);
+  }
+  if (decoded.collateral.length > 0 || decoded.totalCollateral) {
+    console.log("\nTotal Collateral:", decoded.totalCollateral ? `${decoded.totalCollateral} lovelace` : "none");
+    if (collateralCheck) printCollateralCheck(collateralCheck);
+  }
+
+  if (decoded.mint.length > 0) {
+    console.log("\nMint:");
+    decoded.mint.forEach((policy) => {
+      const script = !policy.script
+        ? "⚠️  script not in witness set (reference input?)"
+        : policy.script.source === "witness"
+          ? `${policy.script.language} script in witness set`
+          : `${policy.script.language} reference script at ${policy.script.ref}`;
+      const redeemer = policy.redeemerIndex === null ? "" : `, redeemer mint[${policy.redeemerIndex}]`;
+      console.log(`  ${policy.policyId} (${script}${redeemer})`);
+      policy.assets.forEach((asset) => {
+        const label = asset.label === null ? "" : `(${asset.label}) `;
+        const name = asset.name === null ? "" : ` "${label}${asset.name}"`;
+        console.log(`    ${asset.assetName}${name}: ${asset.quantity}`);
+      });
+    });
+  }
+
+  if (decoded.certificates.length > 0) {
+    console.log("\nCertificates:");
+    decoded.certificates.forEach((cert) => {
+      const details = [
+        cert.credential && `credential=${formatCredential(cert.credential)}`,
+        cert.hotCredential && `hot=${formatCredential(cert.hotCredential)}`,
+        cert.poolKeyHash && `pool=${cert.poolKeyHash}`,
+        cert.drep && `drep=${cert.drep}`,
+        cert.deposit && `deposit=${cert.deposit}`,
+        cert.epoch !== undefined && `epoch=${cert.epoch}`,
+        cert.anchor && `anchor=${cert.anchor.url}`,
+      ].filter(Boolean);
+      console.log(`  [${cert.index}] ${cert.kind} ${details.join(" ")}`);
+    });
+  }
+
+  if (decoded.withdrawals.length > 0) {
+    console.log("\nWithdrawals:");
+    decoded.withdrawals.forEach((w) => console.log(`  ${w.rewardAddress}: ${w.amount} lovelace`));
+  }
+
+  if (decoded.votes.length > 0) {
+    console.log("\nVotes:");
+    decoded.votes.forEach((v) => console.log(`  ${v.voter.kind} ${v.voter.hash} -> ${v.vote} on ${v.actionId}`));
+  }
+
+  if (decoded.proposals.length > 0) {
+    console.log("\nProposals:");
+    decoded.proposals.forEach((p) => {
+      console.log(`  [${p.index}] ${p.kind} deposit=${p.deposit} return=${p.rewardAddress} anchor=${p.anchor.url}`);
+    });
+  }
+
+  if (decoded.currentTreasuryValue !== null) {
+    console.log("\nCurrent Treasury Value:", decoded.currentTreasuryValue, "lovelace");
+  }
+  if (decoded.donation !== null) {
+    console.log("Donation:", decoded.donation, "lovelace");
+  }
+
+  if (decoded.referenceScripts?.length) {
+    console.log("\nReference Scripts:");
+    decoded.referenceScripts.forEach((script) => {
+      console.log(`  ${script.hash} ${script.language} ${script.size} bytes at ${script.ref}`);
+    });
+  }
+
+  printAuxiliaryData(decoded);
 
   console.log("\nWitness Set:");
   printWitnessSet(decoded.witnessSet);
+
+  if (feeAnalysis) printFeeAnalysis(feeAnalysis);
 }
 
 function printWitnessSet(ws: ReturnType<typeof decodeWitnessSet>) {
   if (ws.plutusData?.length) {
     console.log(`  Plutus Data (${ws.plutusData.length} datums):`);
     ws.plutusData.forEach((datum, i) => {
-      console.log(`    [${i}] ${datum.hex.slice(0, 60)}...`);
+      console.log(`    [${i}] ${datum.hash}`);
+      console.log(`        ${datum.hex.slice(0, 60)}...`);
+      if (datum.schema) printSchema(datum.schema, "        ");
     });
   }
 
   if (ws.redeemers?.length) {
     console.log(`  Redeemers (${ws.redeemers.length}):`);
     ws.redeemers.forEach((r, i) => {
-      console.log(`    [${i}] ${r.tag} index=${r.index} exUnits=(${r.exUnits.mem}, ${r.exUnits.steps})`);
+      const target =
+        r.target === undefined ? "" : r.target ? ` -> ${r.target.ref}` : " -> ⚠️  no matching target (misaligned index?)";
+      console.log(`    [${i}] ${r.tag} index=${r.index} exUnits=(${r.exUnits.mem}, ${r.exUnits.steps})${target}`);
+      console.log(`        Data Hash: ${r.dataHash}`);
+      if (r.dataSchema) printSchema(r.dataSchema, "        ");
     });
   }
 
-  if (ws.plutusScriptHashes?.length) {
-    console.log(`  Plutus Scripts (${ws.plutusScriptHashes.length}):`);
-    ws.plutusScriptHashes.forEach((hash, i) => {
-      console.log(`    [${i}] ${hash}`);
+  if (ws.plutusScripts?.length) {
+    console.log(`  Plutus Scripts (${ws.plutusScripts.length}):`);
+    ws.plutusScripts.forEach((script, i) => {
+      console.log(`    [${i}] ${script.hash} ${script.language} ${script.size} bytes`);
     });
   }
 
   if (ws.vkeyCount) {
     console.log(`  VKey Witnesses: ${ws.vkeyCount}`);
+    ws.vkeys?.forEach((vkey, i) => {
+      console.log(`    [${i}] ${vkey.keyHash} (vkey ${vkey.publicKey})`);
+    });
   }
   if (ws.nativeScriptCount) {
     console.log(`  Native Scripts: ${ws.nativeScriptCount}`);
+    ws.nativeScripts?.forEach((s, i) => console.log(`    [${i}] ${s.hash} ${formatNativeScript(s.script)}`));
   }
   if (ws.bootstrapCount) {
     console.log(`  Bootstrap Witnesses: ${ws.bootstrapCount}`);
   }
 }
 
+function formatNativeScript(script: DecodedNativeScript): string {
+  switch (script.type) {
+    case "sig":
+      return `sig(${script.keyHash})`;
+    case "after":
+    case "before":
+      return `${script.type}(${script.slot})`;
+    default: {
+      const required = script.type === "atLeast" ? `${script.required}, ` : "";
+      return `${script.type}(${required}${script.scripts.map(formatNativeScript).join(", ")})`;
+    }
+  }
+}
+
+function printNativeScriptEvaluation(evaluation: NativeScriptEvaluation, indent: string) {
+  console.log(`${indent}${evaluation.satisfied ? "✅" : "❌"} ${evaluation.type}: ${evaluation.reason}`);
+  evaluation.children?.forEach((child) => printNativeScriptEvaluation(child, indent + "   "));
+}
+
+function printNativeScripts(checks: NativeScriptCheck[]) {
+  if (checks.length === 0) return;
+  console.log("\nNative Scripts:");
+  checks.forEach((check) => {
+    console.log(`  ${check.hash} ${check.satisfied ? "satisfied" : "NOT satisfied"}`);
+    printNativeScriptEvaluation(check.evaluation, "    ");
+  });
+}
+
+function printSignatures(result: SignatureVerification) {
+  console.log("\nSignatures:");
+  console.log(`  Body Hash: ${result.bodyHash}`);
+  result.witnesses.forEach((w) => {
+    console.log(`  ${w.valid ? "✅" : "❌"} ${w.keyHash}${w.valid ? "" : " (invalid signature)"}`);
+  });
+  result.satisfied.forEach((hash) => console.log(`  ✅ Required signer ${hash} signed`));
+  result.missing.forEach((hash) => console.log(`  ❌ Required signer ${hash} MISSING`));
+  if (result.extra.length > 0) {
+    console.log(`  Extra signers (not in required signers): ${result.extra.join(", ")}`);
+  }
+}
+
+function printDirectoryComparison(result: DirectoryComparison) {
+  result.pairs.forEach((pair) => {
+    if (pair.passed) {
+      console.log(`✅ ${pair.name}`);
+    } else if (pair.error !== undefined) {
+      console.log(`❌ ${pair.name}: ${pair.error}`);
+    } else {
+      console.log(`❌ ${pair.name}`);
+      const differences = pair.comparison!.differences.filter((d) => d.severity !== "info");
+      formatDifferences(differences).forEach((line) => console.log(`   ${line}`));
+    }
+  });
+  if (result.onlyInDir1.length > 0) console.log(`⚠️  Only in ${result.dir1}: ${result.onlyInDir1.join(", ")}`);
+  if (result.onlyInDir2.length > 0) console.log(`⚠️  Only in ${result.dir2}: ${result.onlyInDir2.join(", ")}`);
+
+  if (result.categories.length > 0) {
+    console.log("\nMost Common Differences:");
+    result.categories.forEach((c) => {
+      console.log(`  ${c.section} ${c.kind}: ${c.count} in ${c.pairs} pair${c.pairs === 1 ? "" : "s"}`);
+    });
+  }
+  console.log(`\nCompared ${result.pairs.length} pairs: ${result.passed} passed, ${result.failed} failed`);
+}
+
+/**
+ * Summary on stderr, so the signed transaction on stdout can be redirected
+ */
+function printAssembly(result: AssembledTransaction) {
+  console.error(`Transaction ID: ${result.txId}`);
+  result.added.forEach((w) => console.error(`  ✅ Added witness ${w.keyHash}`));
+  result.duplicates.forEach((hash) => console.error(`  Skipped duplicate witness ${hash}`));
+  result.missing.forEach((hash) => console.error(`  ⚠️  Required signer ${hash} has not signed yet`));
+  console.log(result.txHex);
+}
+
+const WITNESS_SET_SECTIONS: DifferenceSection[] = ["plutusData", "redeemers", "plutusScripts"];
+const COLLATERAL_SECTIONS: DifferenceSection[] = ["referenceInputs", "collateral", "collateralReturn", "totalCollateral"];
+const BODY_SECTIONS: DifferenceSection[] = [
+  "outputs",
+  "fee",
+  "mint",
+  "certificates",
+  "withdrawals",
+  "votes",
+  "proposals",
+  "currentTreasuryValue",
+  "donation",
+];
+const METADATA_SECTIONS: DifferenceSection[] = ["auxiliaryDataHash", "metadata"];
+
+function printEncodingDifference(encoding: EncodingDifference | null) {
+  if (!encoding) {
+    console.log("✅ Encodings are byte-identical");
+    return;
+  }
+  console.log(`❌ Encodings diverge at byte ${encoding.offset}:`);
+  console.log(`   TX1: 0x${encoding.tx1.byte} in ${encoding.tx1.path} (${encoding.tx1.structure})`);
+  console.log(`   TX2: 0x${encoding.tx2.byte} in ${encoding.tx2.path} (${encoding.tx2.structure})`);
+  console.log(`   Inspect with: ctd cbor <tx> --section ${encoding.tx1.path}`);
+}
+
 function printComparison(
   tx1: ReturnType<typeof decodeTransaction>,
   tx2: ReturnType<typeof decodeTransaction>,
+  options: CompareOptions,
+  intervals: { tx1: ValidityInterval; tx2: ValidityInterval },
+  encoding: EncodingDifference | null,
 ) {
   console.log("\n" + "=".repeat(80));
   console.log("TRANSACTION COMPARISON");
   console.log("=".repeat(80));
 
-  printTransaction(tx1, "TRANSACTION 1");
-  printTransaction(tx2, "TRANSACTION 2");
+  printTransaction(tx1, { label: "TRANSACTION 1", validityInterval: intervals.tx1 });
+  printTransaction(tx2, { label: "TRANSACTION 2", validityInterval: intervals.tx2 });
 
   console.log("\n--- DIFFERENCES ---\n");
 
-  const result = compareTransactions(tx1, tx2);
+  const result = compareTransactions(tx1, tx2, options);
 
   if (result.scriptDataHashMatch) {
     console.log("✅ Script Data Hash matches");
@@ -152,22 +731,134 @@ function printComparison(
     console.log(`   TX2: ${tx2.scriptDataHash}`);
   }
 
-  if (result.inputOrderMatch) {
+  const inSections = (sections: DifferenceSection[]) =>
+    formatDifferences(result.differences.filter((d) => sections.includes(d.section)));
+
+  const inputDifferences = result.differences.filter((d) => d.section === "inputs");
+  if (inputDifferences.length === 0) {
     console.log("✅ Input ordering matches");
   } else {
-    console.log("❌ Input ordering differs:");
-    result.inputDifferences.forEach((d) => console.log(`   ${d}`));
+    // A policy may lower the severity of reordered inputs
+    const icon = inputDifferences.some((d) => d.severity === "error") ? "❌" : "⚠️ ";
+    console.log(`${icon} Input ordering differs:`);
+    inSections(["inputs"]).forEach((d) => console.log(`   ${d}`));
   }
 
-  if (result.witnessSetDifferences.length === 0) {
+  const collateralDifferences = inSections(COLLATERAL_SECTIONS);
+  if (collateralDifferences.length === 0) {
+    console.log("✅ Reference inputs and collateral match");
+  } else {
+    console.log("❌ Reference input and collateral differences:");
+    collateralDifferences.forEach((d) => console.log(`   ${d}`));
+  }
+
+  const witnessSetDifferences = inSections(WITNESS_SET_SECTIONS);
+  if (witnessSetDifferences.length === 0) {
     console.log("✅ Witness sets match");
   } else {
     console.log("❌ Witness set differences:");
-    result.witnessSetDifferences.forEach((d) => console.log(`   ${d}`));
+    witnessSetDifferences.forEach((d) => console.log(`   ${d}`));
+  }
+
+  const bodyDifferences = inSections(BODY_SECTIONS);
+  if (bodyDifferences.length === 0) {
+    console.log("✅ Outputs, fee, mint, certificates, withdrawals and governance fields match");
+  } else {
+    console.log("❌ Body differences:");
+    bodyDifferences.forEach((d) => console.log(`   ${d}`));
+  }
+
+  if (tx1.validityStart === tx2.validityStart && tx1.ttl === tx2.ttl) {
+    console.log("✅ Validity intervals match");
+  } else {
+    console.log("❌ Validity intervals differ:");
+    console.log(`   TX1: ${formatSlotTime(intervals.tx1.validityStart)} to ${formatSlotTime(intervals.tx1.ttl)}`);
+    console.log(`   TX2: ${formatSlotTime(intervals.tx2.validityStart)} to ${formatSlotTime(intervals.tx2.ttl)}`);
+  }
+  printValidityStatus(intervals.tx1, "   TX1 ");
+  printValidityStatus(intervals.tx2, "   TX2 ");
+
+  const metadataDifferences = inSections(METADATA_SECTIONS);
+  if (metadataDifferences.length === 0) {
+    console.log("✅ Metadata matches");
+  } else {
+    console.log("❌ Metadata differences:");
+    metadataDifferences.forEach((d) => console.log(`   ${d}`));
+  }
+
+  if (result.suppressed.length > 0) {
+    console.log(`ℹ️  Suppressed by the comparison policy (${result.suppressed.length}):`);
+    result.suppressed.forEach((d) => console.log(`   ${d.path}: ${d.reason}`));
+  }
+
+  printEncodingDifference(encoding);
+}
+
+function printIntegrity(result: ScriptDataHashVerification) {
+  console.log("Declared Hash:", result.declared ?? "none");
+  console.log("Computed Hash:", result.computed ?? "none");
+  console.log("Languages:", result.languages.length > 0 ? result.languages.join(", ") : "none");
+  console.log("Redeemers:", result.redeemersHex ? `${result.redeemersHex.slice(0, 60)}...` : "none");
+  console.log("Datums:", result.datumsHex ? `${result.datumsHex.slice(0, 60)}...` : "none");
+  console.log();
+
+  if (result.match) {
+    console.log("✅ Script Data Hash matches");
+  } else {
+    console.log(`❌ Script Data Hash DIFFERS (${result.mismatch})`);
+    console.log(`   ${result.explanation}`);
+  }
+}
+
+function printValidation(report: ValidationReport) {
+  if (report.valid) {
+    console.log("✅ Phase-1 validation passed");
+  } else {
+    console.log(`❌ Phase-1 validation failed (${report.violations.length} violations):`);
+    report.violations.forEach((v) => console.log(`   [${v.rule}] ${v.message}`));
   }
+  if (report.skipped.length > 0) {
+    console.log("\nSkipped checks:");
+    report.skipped.forEach((s) => console.log(`   ${s}`));
+  }
+}
+
+function printEvaluation(result: TransactionEvaluation) {
+  for (const r of result.redeemers) {
+    const target = r.target ? ` -> ${r.target.ref}` : "";
+    console.log(`${r.purpose}[${r.index}]${target}`);
+    console.log(`   Declared: mem ${r.declared.mem}, steps ${r.declared.steps}`);
+    if (r.required && r.delta) {
+      const tooSmall = r.delta.mem.startsWith("-") || r.delta.steps.startsWith("-");
+      console.log(`   Required: mem ${r.required.mem}, steps ${r.required.steps}`);
+      console.log(`   ${tooSmall ? "⚠️ " : ""}Delta:    mem ${r.delta.mem}, steps ${r.delta.steps}`);
+    } else if (!r.error) {
+      console.log("   Not evaluated");
+    }
+    if (r.error) console.log(`   ❌ ${r.error}`);
+    r.logs.forEach((log) => console.log(`   Trace: ${log}`));
+  }
+  if (result.error) console.log(`❌ ${result.error}`);
+  console.log();
+  console.log(result.success ? "✅ All scripts succeeded within their budgets" : "❌ Script evaluation failed");
 }
 
-function main(): void {
+function printScriptContexts(contexts: ScriptContext[]) {
+  if (contexts.length === 0) {
+    console.log("No redeemers, so no scripts run");
+    return;
+  }
+  for (const context of contexts) {
+    const target = context.target ? ` -> ${context.target.ref}` : "";
+    console.log(`Redeemer [${context.redeemer}] ${context.purpose}[${context.index}]${target}`);
+    console.log(`   Script: ${context.scriptHash ?? "none"} (${context.language})`);
+    console.log(`   CBOR: ${context.cbor}`);
+    console.log(`   ScriptContext: ${JSON.stringify(context.json, null, 2).replace(/\n/g, "\n   ")}`);
+    console.log();
+  }
+}
+
+async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
   if (args.length === 0 || args.includes("--help") || args.includes("-h")) {
@@ -176,7 +867,11 @@ function main(): void {
   }
 
   const jsonOutput = args.includes("--json");
-  const filteredArgs = args.filter((a) => !a.startsWith("--"));
+  // --redeemer is a flag of decode-datum, but takes a redeemer number in script-context
+  const filteredArgs = args.filter(
+    (a, i) =>
+      !a.startsWith("--") && !VALUE_OPTIONS.includes(args[i - 1]) && !(args[i - 1] === "--redeemer" && /^\d+$/.test(a)),
+  );
   const command = filteredArgs[0];
 
   try {
@@ -187,12 +882,39 @@ function main(): void {
           console.error("Error: Missing transaction hex or file path");
           process.exit(1);
         }
-        const txHex = readHexInput(txInput);
-        const decoded = decodeTransaction(txHex);
+        const txHex = readInput(txInput);
+        const blueprintType = getBlueprintType(args);
+        const paramsPath = getOption(args, "--params");
+        const utxosPath = getOption(args, "--utxos");
+        let decoded = blueprintType
+          ? applyBlueprint(decodeTransaction(txHex), blueprintType.blueprint, blueprintType.type)
+          : decodeTransaction(txHex);
+        const utxos = utxosPath ? await fetchUtxos(decoded, fileUtxoProvider(utxosPath)) : undefined;
+        if (utxos) decoded = resolveReferenceScripts(resolveInputs(decoded, utxos), utxos);
+        const signatures = verifySignatures(txHex);
+        const nativeScripts = evaluateNativeScripts(txHex);
+        const feeAnalysis = analyzeFee(
+          txHex,
+          paramsPath ? parseProtocolParameters(readJsonFile(paramsPath)) : undefined,
+          utxos,
+        );
+        const validityInterval = getValidityInterval(args, decoded);
+        const collateralCheck = utxos ? checkTotalCollateral(decoded, utxos) : undefined;
         if (jsonOutput) {
-          printJson(decoded);
+          const balances = utxos ? addressBalances(decoded) : undefined;
+          printJson({
+            ...decoded,
+            validityInterval,
+            collateralCheck,
+            balances,
+            signatures,
+            nativeScripts,
+            feeAnalysis,
+          });
         } else {
-          printTransaction(decoded);
+          printTransaction(decoded, { feeAnalysis, validityInterval, collateralCheck });
+          printSignatures(signatures);
+          printNativeScripts(nativeScripts);
         }
         break;
       }
@@ -203,7 +925,7 @@ function main(): void {
           console.error("Error: Missing witness set hex or file path");
           process.exit(1);
         }
-        const wsHex = readHexInput(wsInput);
+        const wsHex = readInput(wsInput);
         const decoded = decodeWitnessSet(wsHex);
         if (jsonOutput) {
           printJson(decoded);
@@ -219,9 +941,15 @@ function main(): void {
           console.error("Error: Missing datum hex or file path");
           process.exit(1);
         }
-        const datumHex = readHexInput(datumInput);
+        const datumHex = readInput(datumInput);
         const decoded = decodePlutusData(datumHex);
-        printJson(decoded);
+        const blueprintType = getBlueprintType(args);
+        if (blueprintType) {
+          const purpose = args.includes("--redeemer") ? "redeemer" : "datum";
+          printJson(decodeWithBlueprint(decoded, blueprintType.blueprint, blueprintType.type, purpose));
+        } else {
+          printJson(decoded);
+        }
         break;
       }
 
@@ -232,15 +960,49 @@ function main(): void {
           console.error("Error: Need two transaction hex values or file paths to compare");
           process.exit(1);
         }
-        const tx1Hex = readHexInput(tx1Input);
-        const tx2Hex = readHexInput(tx2Input);
-        const tx1 = decodeTransaction(tx1Hex);
-        const tx2 = decodeTransaction(tx2Hex);
+        const tx1Hex = readInput(tx1Input);
+        const tx2Hex = readInput(tx2Input);
+        const blueprintType = getBlueprintType(args);
+        const utxosPath = getOption(args, "--utxos");
+        const provider = utxosPath ? fileUtxoProvider(utxosPath) : undefined;
+        const decode = async (hex: string) => {
+          const decoded = blueprintType
+            ? applyBlueprint(decodeTransaction(hex), blueprintType.blueprint, blueprintType.type)
+            : decodeTransaction(hex);
+          return provider ? resolveInputs(decoded, await fetchUtxos(decoded, provider)) : decoded;
+        };
+        const tx1 = await decode(tx1Hex);
+        const tx2 = await decode(tx2Hex);
+        const intervals = { tx1: getValidityInterval(args, tx1), tx2: getValidityInterval(args, tx2) };
+        const encoding = compareEncodings(tx1Hex, tx2Hex);
         if (jsonOutput) {
-          const result = compareTransactions(tx1, tx2);
-          printJson({ tx1, tx2, comparison: result });
+          const result = compareTransactions(tx1, tx2, getCompareOptions(args));
+          printJson({ tx1, tx2, validityIntervals: intervals, comparison: result, encoding });
         } else {
-          printComparison(tx1, tx2);
+          printComparison(tx1, tx2, getCompareOptions(args), intervals, encoding);
+        }
+        break;
+      }
+
+      case "compare-dir": {
+        const dir1 = filteredArgs[1];
+        const dir2 = filteredArgs[2];
+        if (!dir1 || !dir2) {
+          console.error("Error: Need two directories of transactions to compare");
+          process.exit(1);
+        }
+        const result = compareDirectories(dir1, dir2, getCompareOptions(args));
+        const junitPath = getOption(args, "--junit");
+        if (junitPath) {
+          writeFileSync(junitPath, formatJUnitReport(result));
+        }
+        if (jsonOutput) {
+          printJson(result);
+        } else {
+          printDirectoryComparison(result);
+        }
+        if (result.failed > 0 || result.onlyInDir1.length > 0 || result.onlyInDir2.length > 0) {
+          process.exit(1);
         }
         break;
       }
@@ -252,11 +1014,158 @@ function main(): void {
           console.error("Error: Need two witness set hex values or file paths to compare");
           process.exit(1);
         }
-        const ws1Hex = readHexInput(ws1Input);
-        const ws2Hex = readHexInput(ws2Input);
+        const ws1Hex = readInput(ws1Input);
+        const ws2Hex = readInput(ws2Input);
         const ws1 = decodeWitnessSet(ws1Hex);
         const ws2 = decodeWitnessSet(ws2Hex);
-        printJson({ ws1, ws2 });
+        printJson({ ws1, ws2, differences: compareWitnessSets(ws1, ws2, getCompareOptions(args)) });
+        break;
+      }
+
+      case "verify-integrity": {
+        const txInput = filteredArgs[1];
+        const paramsPath = getOption(args, "--params");
+        if (!txInput || !paramsPath) {
+          console.error("Error: Need a transaction hex or file path and --params <protocol-params.json>");
+          process.exit(1);
+        }
+        const { costModels } = parseProtocolParameters(readJsonFile(paramsPath));
+        const languages = getOption(args, "--languages")?.split(",") as PlutusLanguage[] | undefined;
+        const result = verifyScriptDataHash(readInput(txInput), costModels, { languages });
+        if (jsonOutput) {
+          printJson(result);
+        } else {
+          printIntegrity(result);
+        }
+        if (!result.match) {
+          process.exit(1);
+        }
+        break;
+      }
+
+      case "validate": {
+        const txInput = filteredArgs[1];
+        const utxosPath = getOption(args, "--utxos");
+        const paramsPath = getOption(args, "--params");
+        if (!txInput || !utxosPath || !paramsPath) {
+          console.error("Error: Need a transaction hex or file path, --utxos <utxos.json> and --params <protocol-params.json>");
+          process.exit(1);
+        }
+        const slotOption = getOption(args, "--slot");
+        const report = validateTransaction(
+          readInput(txInput),
+          parseUtxos(readJsonFile(utxosPath)),
+          parseProtocolParameters(readJsonFile(paramsPath)),
+          { slot: slotOption === undefined ? undefined : Number(slotOption) },
+        );
+        if (jsonOutput) {
+          printJson(report);
+        } else {
+          printValidation(report);
+        }
+        if (!report.valid) {
+          process.exit(1);
+        }
+        break;
+      }
+
+      case "evaluate": {
+        const txInput = filteredArgs[1];
+        const utxosPath = getOption(args, "--utxos");
+        const paramsPath = getOption(args, "--params");
+        if (!txInput || !utxosPath || !paramsPath) {
+          console.error("Error: Need a transaction hex or file path, --utxos <utxos.json> and --params <protocol-params.json>");
+          process.exit(1);
+        }
+        const result = evaluateTransaction(
+          readInput(txInput),
+          parseUtxos(readJsonFile(utxosPath)),
+          parseProtocolParameters(readJsonFile(paramsPath)),
+          { slotConfig: getSlotConfig(args) },
+        );
+        if (jsonOutput) {
+          printJson(result);
+        } else {
+          printEvaluation(result);
+        }
+        if (!result.success) {
+          process.exit(1);
+        }
+        break;
+      }
+
+      case "disassemble-script": {
+        const scriptInput = filteredArgs[1];
+        if (!scriptInput) {
+          console.error("Error: Missing script hex or file path");
+          process.exit(1);
+        }
+        const hash = getOption(args, "--hash");
+        let scriptHex = readInput(scriptInput);
+        if (hash) {
+          const script = toArray(Transaction.from_hex(scriptHex).witness_set().plutus_scripts()).find(
+            (s) => s.hash().to_hex() === hash,
+          );
+          if (!script) {
+            throw new Error(`No Plutus script ${hash} in the transaction's witness set`);
+          }
+          scriptHex = script.to_hex();
+        }
+        console.log(disassembleScript(scriptHex));
+        break;
+      }
+
+      case "script-context": {
+        const txInput = filteredArgs[1];
+        const utxosPath = getOption(args, "--utxos");
+        if (!txInput || !utxosPath) {
+          console.error("Error: Need a transaction hex or file path and --utxos <utxos.json>");
+          process.exit(1);
+        }
+        const txHex = readInput(txInput);
+        const utxos = parseUtxos(readJsonFile(utxosPath));
+        const redeemer = getOption(args, "--redeemer");
+        const options = {
+          slotConfig: getSlotConfig(args),
+          language: getOption(args, "--language") as PlutusLanguage | undefined,
+        };
+        const contexts =
+          redeemer && /^\d+$/.test(redeemer)
+            ? [buildScriptContext(txHex, utxos, Number(redeemer), options)]
+            : buildScriptContexts(txHex, utxos, options);
+        if (jsonOutput) {
+          printJson(contexts);
+        } else {
+          printScriptContexts(contexts);
+        }
+        break;
+      }
+
+      case "assemble": {
+        const [, txInput, ...witnessInputs] = filteredArgs;
+        if (!txInput || witnessInputs.length === 0) {
+          console.error("Error: Need a transaction and at least one witness (hex or file path)");
+          process.exit(1);
+        }
+        const utxosPath = getOption(args, "--utxos");
+        const result = assembleTransaction(readInput(txInput), witnessInputs.map(readInput), {
+          utxos: utxosPath ? parseUtxos(readJsonFile(utxosPath)) : undefined,
+        });
+        if (jsonOutput) {
+          printJson(result);
+        } else {
+          printAssembly(result);
+        }
+        break;
+      }
+
+      case "cbor": {
+        const cborInput = filteredArgs[1];
+        if (!cborInput) {
+          console.error("Error: Missing CBOR hex or file path");
+          process.exit(1);
+        }
+        console.log(cborDiagnostic(readInput(cborInput), getOption(args, "--section")));
         break;
       }
 
@@ -271,4 +1180,4 @@ function main(): void {
   }
 }
 
-main();
+void main();
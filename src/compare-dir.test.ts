@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { compareDirectories, formatJUnitReport } from "./compare-dir.js";
+import { CONWAY_TX_HEX } from "./test-fixtures.js";
+
+// Donation 7 -> 8, and current treasury value 1000000 -> 1000001
+const DONATION_TX_HEX = CONWAY_TX_HEX.replace(/1607a0f5f6$/, "1608a0f5f6");
+const TREASURY_TX_HEX = DONATION_TX_HEX.replace("151a000f4240", "151a000f4241");
+
+let root: string;
+let dir1: string;
+let dir2: string;
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), "ctd-compare-dir-"));
+  dir1 = join(root, "old");
+  dir2 = join(root, "new");
+  const files: Record<string, [string, string]> = {
+    "same.hex": [CONWAY_TX_HEX, CONWAY_TX_HEX],
+    "donation.hex": [CONWAY_TX_HEX, DONATION_TX_HEX],
+    "treasury.hex": [CONWAY_TX_HEX, TREASURY_TX_HEX],
+    "broken.hex": [CONWAY_TX_HEX, "84a0"],
+  };
+  [dir1, dir2].forEach((dir) => mkdirSync(dir));
+  Object.entries(files).forEach(([name, [tx1, tx2]]) => {
+    writeFileSync(join(dir1, name), tx1);
+    writeFileSync(join(dir2, name), tx2);
+  });
+  writeFileSync(join(dir1, "old-only.hex"), CONWAY_TX_HEX);
+  writeFileSync(join(dir2, "new-only.hex"), CONWAY_TX_HEX);
+});
+
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+describe("compareDirectories", () => {
+  it("compares files of the same name and reports unpaired files", () => {
+    const result = compareDirectories(dir1, dir2);
+
+    expect(result.pairs.map((pair) => [pair.name, pair.passed])).toEqual([
+      ["broken.hex", false],
+      ["donation.hex", false],
+      ["same.hex", true],
+      ["treasury.hex", false],
+    ]);
+    expect(result.pairs[0].error).toBeDefined();
+    expect(result.pairs[1].comparison?.differences).toMatchObject([{ section: "donation", kind: "changed" }]);
+    expect(result).toMatchObject({ onlyInDir1: ["old-only.hex"], onlyInDir2: ["new-only.hex"], passed: 1, failed: 3 });
+  });
+
+  it("ranks difference categories by the number of pairs they occur in", () => {
+    expect(compareDirectories(dir1, dir2).categories).toEqual([
+      { section: "donation", kind: "changed", count: 2, pairs: 2 },
+      { section: "currentTreasuryValue", kind: "changed", count: 1, pairs: 1 },
+    ]);
+  });
+});
+
+describe("compareDirectories with a policy", () => {
+  it("passes pairs whose differences the policy suppresses, and still fails pairs on warnings", () => {
+    const result = compareDirectories(dir1, dir2, { policy: { ignore: ["donation"] } });
+
+    expect(result.pairs.map((pair) => [pair.name, pair.passed])).toEqual([
+      ["broken.hex", false],
+      ["donation.hex", true],
+      ["same.hex", true],
+      ["treasury.hex", false],
+    ]);
+    const [, donation, , treasury] = result.pairs;
+    expect(donation.comparison?.suppressed).toMatchObject([{ section: "donation", reason: 'ignored by "donation"' }]);
+    expect(treasury.comparison?.differences).toMatchObject([{ section: "currentTreasuryValue", severity: "warning" }]);
+    expect(result.categories).toEqual([{ section: "currentTreasuryValue", kind: "changed", count: 1, pairs: 1 }]);
+  });
+});
+
+describe("formatJUnitReport", () => {
+  it("reports one test case per file, with failures and errors", () => {
+    const report = formatJUnitReport(compareDirectories(dir1, dir2));
+    const suite = `${dir1} vs ${dir2}`;
+
+    expect(report).toContain(`<testsuite name="${suite}" tests="6" failures="2" errors="3">`);
+    expect(report).toContain(`<testcase classname="${suite}" name="same.hex" />`);
+    expect(report).toContain('<failure message="1 difference" type="mismatch">Donation differs: 7 vs 8</failure>');
+    expect(report).toContain(`<error message="missing in ${dir2}" />`);
+  });
+});
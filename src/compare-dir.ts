@@ -0,0 +1,121 @@
+import { readdirSync, statSync } from "fs";
+import { join } from "path";
+import { compareTransactions, formatDifferences } from "./compare.js";
+import { decodeTransaction } from "./decoder.js";
+import { readInput } from "./input.js";
+import type {
+  CompareOptions,
+  DifferenceCategory,
+  DirectoryComparison,
+  PairComparison,
+} from "./types.js";
+
+/** Names of the regular, non-hidden files in a directory */
+function listFiles(dir: string): string[] {
+  return readdirSync(dir)
+    .filter((name) => !name.startsWith(".") && statSync(join(dir, name)).isFile())
+    .sort();
+}
+
+function comparePair(name: string, dir1: string, dir2: string, options: CompareOptions): PairComparison {
+  let tx1;
+  let tx2;
+  try {
+    tx1 = decodeTransaction(readInput(join(dir1, name)));
+    tx2 = decodeTransaction(readInput(join(dir2, name)));
+  } catch (error) {
+    return { name, passed: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  const comparison = compareTransactions(tx1, tx2, options);
+  // Info differences are the same items at other positions, which --match-by-content accepts; warnings fail too
+  const passed = comparison.differences.every((d) => d.severity === "info");
+  return { name, passed, comparison };
+}
+
+/**
+ * Most common (section, kind) pairs among the failing pairs' differences,
+ * by the number of pairs they occur in
+ */
+function categorize(pairs: PairComparison[]): DifferenceCategory[] {
+  const categories = new Map<string, DifferenceCategory>();
+  pairs
+    .filter((pair) => !pair.passed)
+    .forEach(({ comparison }) => {
+      const seen = new Set<string>();
+      comparison?.differences
+        .filter((d) => d.severity !== "info")
+        .forEach(({ section, kind }) => {
+          const key = `${section} ${kind}`;
+          const category = categories.get(key) ?? { section, kind, count: 0, pairs: 0 };
+          category.count++;
+          if (!seen.has(key)) category.pairs++;
+          seen.add(key);
+          categories.set(key, category);
+        });
+    });
+  return [...categories.values()].sort((a, b) => b.pairs - a.pairs || b.count - a.count);
+}
+
+/**
+ * Compare every transaction in dir1 with the file of the same name in dir2,
+ * e.g. the outputs of two transaction builders run on the same fixtures
+ */
+export function compareDirectories(dir1: string, dir2: string, options: CompareOptions = {}): DirectoryComparison {
+  const files1 = listFiles(dir1);
+  const files2 = listFiles(dir2);
+  const pairs = files1.filter((name) => files2.includes(name)).map((name) => comparePair(name, dir1, dir2, options));
+  const passed = pairs.filter((pair) => pair.passed).length;
+
+  return {
+    dir1,
+    dir2,
+    pairs,
+    onlyInDir1: files1.filter((name) => !files2.includes(name)),
+    onlyInDir2: files2.filter((name) => !files1.includes(name)),
+    passed,
+    failed: pairs.length - passed,
+    categories: categorize(pairs),
+  };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Render a directory comparison as a JUnit XML report: one test case per
+ * file, failing on differences and erroring when a file is unpaired or
+ * doesn't decode
+ */
+export function formatJUnitReport(result: DirectoryComparison): string {
+  const suite = escapeXml(`${result.dir1} vs ${result.dir2}`);
+  const testCase = (name: string, body: string = "") =>
+    `    <testcase classname="${suite}" name="${escapeXml(name)}"${body ? `>\n${body}\n    </testcase>` : " />"}`;
+  const missingIn = (dir: string) => `      <error message="missing in ${escapeXml(dir)}" />`;
+
+  const cases = [
+    ...result.pairs.map((pair) => {
+      if (pair.error !== undefined) return testCase(pair.name, `      <error message="${escapeXml(pair.error)}" />`);
+      if (pair.passed) return testCase(pair.name);
+      const differences = pair.comparison!.differences.filter((d) => d.severity !== "info");
+      const message = `${differences.length} difference${differences.length === 1 ? "" : "s"}`;
+      const details = escapeXml(formatDifferences(differences).join("\n"));
+      return testCase(pair.name, `      <failure message="${message}" type="mismatch">${details}</failure>`);
+    }),
+    ...result.onlyInDir1.map((name) => testCase(name, missingIn(result.dir2))),
+    ...result.onlyInDir2.map((name) => testCase(name, missingIn(result.dir1))),
+  ];
+  const decodeErrors = result.pairs.filter((pair) => pair.error !== undefined).length;
+  const errors = decodeErrors + result.onlyInDir1.length + result.onlyInDir2.length;
+  const failures = result.failed - decodeErrors;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${cases.length}" failures="${failures}" errors="${errors}">`,
+    `  <testsuite name="${suite}" tests="${cases.length}" failures="${failures}" errors="${errors}">`,
+    ...cases,
+    "  </testsuite>",
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
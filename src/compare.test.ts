@@ -1,11 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { compareTransactions, compareWitnessSets } from "./compare.js";
+import { compareTransactions, compareWitnessSets, formatDifferences } from "./compare.js";
+import { decodeTransaction } from "./decoder.js";
+import { SAMPLE_TX_HEX } from "./test-fixtures.js";
 import type { DecodedTransaction, DecodedWitnessSet } from "./types.js";
 
 describe("compareWitnessSets", () => {
   it("returns empty array when witness sets match", () => {
     const ws: DecodedWitnessSet = {
-      plutusData: [{ index: 0, hex: "abc123", json: { test: 1 } }],
+      plutusData: [{ index: 0, hex: "abc123", hash: "abc123-hash", json: { test: 1 } }],
     };
 
     const result = compareWitnessSets(ws, ws);
@@ -14,29 +16,139 @@ describe("compareWitnessSets", () => {
 
   it("detects plutus data count difference", () => {
     const ws1: DecodedWitnessSet = {
-      plutusData: [{ index: 0, hex: "abc", json: {} }],
+      plutusData: [{ index: 0, hex: "abc", hash: "abc-hash", json: {} }],
     };
     const ws2: DecodedWitnessSet = {
       plutusData: [
-        { index: 0, hex: "abc", json: {} },
-        { index: 1, hex: "def", json: {} },
+        { index: 0, hex: "abc", hash: "abc-hash", json: {} },
+        { index: 1, hex: "def", hash: "def-hash", json: {} },
       ],
     };
 
     const result = compareWitnessSets(ws1, ws2);
-    expect(result).toContain("Plutus data count differs: 1 vs 2");
+    expect(result).toEqual([
+      {
+        section: "plutusData",
+        path: "plutusData[1]",
+        kind: "added",
+        severity: "error",
+        oldValue: undefined,
+        newValue: { index: 1, hex: "def", hash: "def-hash", json: {} },
+      },
+    ]);
   });
 
   it("detects plutus data hex difference", () => {
     const ws1: DecodedWitnessSet = {
-      plutusData: [{ index: 0, hex: "abc123", json: { value: 1 } }],
+      plutusData: [{ index: 0, hex: "abc123", hash: "abc123-hash", json: { value: 1 } }],
     };
     const ws2: DecodedWitnessSet = {
-      plutusData: [{ index: 0, hex: "def456", json: { value: 2 } }],
+      plutusData: [{ index: 0, hex: "def456", hash: "def456-hash", json: { value: 2 } }],
     };
 
     const result = compareWitnessSets(ws1, ws2);
-    expect(result.some((d) => d.includes("Plutus data at index 0 differs"))).toBe(true);
+    expect(result).toEqual([
+      {
+        section: "plutusData",
+        path: "plutusData[0].value",
+        kind: "changed",
+        severity: "error",
+        oldValue: 1,
+        newValue: 2,
+      },
+    ]);
+  });
+
+  it("falls back to the hex for encoding-only datum differences", () => {
+    const ws1: DecodedWitnessSet = {
+      plutusData: [{ index: 0, hex: "9f01ff", hash: "9f01ff-hash", json: { list: [{ int: 1 }] } }],
+    };
+    const ws2: DecodedWitnessSet = {
+      plutusData: [{ index: 0, hex: "8101", hash: "8101-hash", json: { list: [{ int: 1 }] } }],
+    };
+
+    const result = compareWitnessSets(ws1, ws2);
+    expect(result).toMatchObject([{ path: "plutusData[0]", kind: "changed", oldValue: "9f01ff", newValue: "8101" }]);
+  });
+
+  it("reports nested datum paths", () => {
+    const ws1: DecodedWitnessSet = {
+      plutusData: [{ index: 0, hex: "a", hash: "a-hash", json: { constructor: 0, fields: [{ int: 1 }, { bytes: "aa" }] } }],
+    };
+    const ws2: DecodedWitnessSet = {
+      plutusData: [{ index: 0, hex: "b", hash: "b-hash", json: { constructor: 0, fields: [{ int: 1 }] } }],
+    };
+
+    const result = compareWitnessSets(ws1, ws2);
+    expect(result).toMatchObject([{ path: "plutusData[0].fields[1]", kind: "removed", oldValue: { bytes: "aa" } }]);
+  });
+
+  it("pairs datums by hash and scripts by hash with matchByContent", () => {
+    const ws1: DecodedWitnessSet = {
+      plutusData: [
+        { index: 0, hex: "01", hash: "01-hash", json: { int: 1 } },
+        { index: 1, hex: "02", hash: "02-hash", json: { int: 2 } },
+      ],
+      plutusScriptHashes: ["aa", "bb"],
+    };
+    const ws2: DecodedWitnessSet = {
+      plutusData: [
+        { index: 0, hex: "02", hash: "02-hash", json: { int: 2 } },
+        { index: 1, hex: "03", hash: "03-hash", json: { int: 3 } },
+      ],
+      plutusScriptHashes: ["bb", "aa"],
+    };
+
+    const result = compareWitnessSets(ws1, ws2, { matchByContent: true });
+    expect(result.map((d) => [d.section, d.kind, d.severity])).toEqual([
+      ["plutusData", "removed", "error"],
+      ["plutusData", "added", "error"],
+      ["plutusScripts", "reordered", "info"],
+      ["plutusScripts", "reordered", "info"],
+    ]);
+    expect(result[2]).toMatchObject({ path: "plutusScripts[aa]", oldValue: 0, newValue: 1 });
+  });
+
+  it("doesn't report items after a removed one as reordered with matchByContent", () => {
+    const datum = (hex: string) => ({ index: 0, hex, hash: `${hex}-hash`, json: { bytes: hex } });
+    const ws1: DecodedWitnessSet = { plutusData: [datum("01"), datum("02"), datum("03")] };
+    const ws2: DecodedWitnessSet = { plutusData: [datum("01"), datum("03")] };
+
+    expect(compareWitnessSets(ws1, ws2, { matchByContent: true })).toMatchObject([
+      { path: "plutusData[02-hash]", kind: "removed" },
+    ]);
+  });
+
+  it("matches duplicate items by count with matchByContent", () => {
+    const compare = (hashes1: string[], hashes2: string[]) =>
+      compareWitnessSets({ plutusScriptHashes: hashes1 }, { plutusScriptHashes: hashes2 }, { matchByContent: true });
+
+    expect(compare(["aa", "aa", "bb"], ["aa", "bb"])).toMatchObject([{ path: "plutusScripts[aa]", kind: "removed" }]);
+    expect(compare(["aa", "bb"], ["aa", "bb", "aa"])).toMatchObject([{ path: "plutusScripts[aa]", kind: "added" }]);
+    expect(compare(["aa", "bb", "aa"], ["bb", "aa", "aa"])).toMatchObject([
+      { path: "plutusScripts[aa]", kind: "reordered", oldValue: 0, newValue: 1 },
+      { path: "plutusScripts[bb]", kind: "reordered", oldValue: 1, newValue: 0 },
+    ]);
+  });
+
+  it("pairs redeemers by tag and index with matchByContent", () => {
+    const redeemer = (index: string, mem: string) => ({
+      tag: '"Spend"',
+      index,
+      dataHex: "80",
+      dataHash: "80-hash",
+      dataJson: { list: [] },
+      exUnits: { mem, steps: "1" },
+    });
+    const ws1: DecodedWitnessSet = { redeemers: [redeemer("0", "10"), redeemer("1", "10")] };
+    const ws2: DecodedWitnessSet = { redeemers: [redeemer("1", "10"), redeemer("0", "20")] };
+
+    expect(compareWitnessSets(ws1, ws2).length).toBe(3);
+    expect(compareWitnessSets(ws1, ws2, { matchByContent: true })).toMatchObject([
+      { path: "redeemers[spend:0]", kind: "reordered" },
+      { path: "redeemers[spend:0].exUnits.mem", kind: "changed", oldValue: "10", newValue: "20" },
+      { path: "redeemers[spend:1]", kind: "reordered" },
+    ]);
   });
 
   it("handles empty witness sets", () => {
@@ -47,6 +159,7 @@ describe("compareWitnessSets", () => {
 
 describe("compareTransactions", () => {
   const baseTx: DecodedTransaction = {
+    txHash: "def456",
     scriptDataHash: "abc123",
     inputCount: 1,
     outputCount: 1,
@@ -56,6 +169,20 @@ describe("compareTransactions", () => {
     requiredSigners: [],
     witnessSet: {},
     inputs: [{ txHash: "tx1", index: 0 }],
+    outputs: [],
+    collateral: [],
+    collateralReturn: null,
+    totalCollateral: null,
+    referenceInputs: [],
+    mint: [],
+    certificates: [],
+    withdrawals: [],
+    votes: [],
+    proposals: [],
+    currentTreasuryValue: null,
+    donation: null,
+    auxiliaryDataHash: null,
+    auxiliaryData: null,
   };
 
   it("returns all matches when transactions are identical", () => {
@@ -63,8 +190,7 @@ describe("compareTransactions", () => {
 
     expect(result.scriptDataHashMatch).toBe(true);
     expect(result.inputOrderMatch).toBe(true);
-    expect(result.witnessSetDifferences).toEqual([]);
-    expect(result.inputDifferences).toEqual([]);
+    expect(result.differences).toEqual([]);
   });
 
   it("detects script data hash mismatch", () => {
@@ -72,6 +198,69 @@ describe("compareTransactions", () => {
     const result = compareTransactions(baseTx, tx2);
 
     expect(result.scriptDataHashMatch).toBe(false);
+    expect(result.differences).toMatchObject([
+      { section: "scriptDataHash", kind: "changed", oldValue: "abc123", newValue: "different" },
+    ]);
+  });
+
+  it("detects withdrawal and donation differences", () => {
+    const credential = { type: "key" as const, hash: "ab" };
+    const tx1 = { ...baseTx, withdrawals: [{ rewardAddress: "stake1", credential, amount: "10" }] };
+    const tx2 = {
+      ...baseTx,
+      withdrawals: [{ rewardAddress: "stake1", credential, amount: "20" }],
+      donation: "5",
+    };
+    const result = compareTransactions(tx1, tx2);
+
+    expect(result.differences.map((d) => [d.path, d.severity])).toEqual([
+      ["withdrawals[stake1]", "warning"],
+      ["donation", "warning"],
+    ]);
+    expect(formatDifferences(result.differences)).toEqual([
+      "Withdrawal differs at withdrawals[stake1]: 10 vs 20",
+      "Donation differs: none vs 5",
+    ]);
+  });
+
+  it("detects minted quantity differences per asset", () => {
+    const mint = (quantity: string) => [
+      {
+        policyId: "pp",
+        assets: [{ assetName: "4e4654", name: "NFT", label: null, quantity }],
+        script: null,
+        redeemerIndex: null,
+      },
+    ];
+    const result = compareTransactions({ ...baseTx, mint: mint("1") }, { ...baseTx, mint: mint("-1") });
+
+    expect(result.differences).toMatchObject([
+      { section: "mint", path: "mint[pp.4e4654]", kind: "changed", oldValue: "1", newValue: "-1" },
+    ]);
+  });
+
+  it("detects metadata differences by label", () => {
+    const auxiliaryData = (metadata: Record<string, unknown>) => ({ hash: "", metadata });
+    const tx1 = { ...baseTx, auxiliaryData: auxiliaryData({ 674: { msg: ["mint"] }, 721: { p: { a: { name: "A" } } } }) };
+    const tx2 = { ...baseTx, auxiliaryData: auxiliaryData({ 721: { p: { a: { name: "B" } } } }) };
+    const result = compareTransactions(tx1, tx2);
+
+    expect(result.differences).toMatchObject([
+      { section: "metadata", path: "metadata[674]", kind: "removed", severity: "warning" },
+      { section: "metadata", path: "metadata[721].p.a.name", kind: "changed", oldValue: "A", newValue: "B" },
+    ]);
+    expect(formatDifferences(result.differences)[1]).toBe("Metadata differs at metadata[721].p.a.name: A vs B");
+  });
+
+  it("detects certificate kind difference", () => {
+    const tx1 = { ...baseTx, certificates: [{ index: 0, kind: "VoteDelegation", drep: "AlwaysAbstain" }] };
+    const tx2 = { ...baseTx, certificates: [{ index: 0, kind: "StakeDelegation", poolKeyHash: "cd" }] };
+    const result = compareTransactions(tx1, tx2);
+
+    expect(result.differences).toMatchObject([
+      { section: "certificates", path: "certificates[0].kind", kind: "changed", severity: "error" },
+    ]);
+    expect(formatDifferences(result.differences)[0]).toContain("affects cert redeemer indices");
   });
 
   it("detects input order difference", () => {
@@ -79,6 +268,88 @@ describe("compareTransactions", () => {
     const result = compareTransactions(baseTx, tx2);
 
     expect(result.inputOrderMatch).toBe(false);
-    expect(result.inputDifferences.length).toBeGreaterThan(0);
+    expect(result.differences).toMatchObject([
+      { section: "inputs", path: "inputs[tx1#0]", kind: "removed" },
+      { section: "inputs", path: "inputs[tx2#0]", kind: "added" },
+    ]);
+  });
+
+  it("detects reordered inputs", () => {
+    const tx1 = { ...baseTx, inputs: [{ txHash: "a", index: 0 }, { txHash: "b", index: 0 }] };
+    const tx2 = { ...baseTx, inputs: [{ txHash: "b", index: 0 }, { txHash: "a", index: 0 }] };
+    const result = compareTransactions(tx1, tx2);
+
+    expect(result.differences.map((d) => d.kind)).toEqual(["reordered", "reordered"]);
+    expect(formatDifferences(result.differences)[0]).toBe(
+      "Input inputs[a#0] moved from position 0 to 1 (affects redeemer indices!)",
+    );
+  });
+
+  it("doesn't report inputs after a removed one as reordered", () => {
+    const inputs = ["a", "b", "c"].map((txHash) => ({ txHash, index: 0 }));
+    const tx1 = { ...baseTx, inputs };
+    const tx2 = { ...baseTx, inputs: [inputs[0], inputs[2]] };
+    const result = compareTransactions(tx1, tx2);
+
+    expect(result.differences).toMatchObject([{ path: "inputs[b#0]", kind: "removed", oldValue: 1 }]);
+    expect(compareTransactions(tx2, tx1).differences).toMatchObject([{ path: "inputs[b#0]", kind: "added" }]);
+  });
+
+  it("treats reordered reference inputs as errors and reordered collateral as info", () => {
+    const refs = [{ txHash: "a", index: 0 }, { txHash: "b", index: 0 }];
+    const tx1 = { ...baseTx, referenceInputs: refs, collateral: refs };
+    const tx2 = { ...baseTx, referenceInputs: [...refs].reverse(), collateral: [...refs].reverse() };
+    const result = compareTransactions(tx1, tx2);
+
+    expect(result.inputOrderMatch).toBe(true);
+    expect(result.differences.map((d) => [d.section, d.kind, d.severity])).toEqual([
+      ["referenceInputs", "reordered", "error"],
+      ["referenceInputs", "reordered", "error"],
+      ["collateral", "reordered", "info"],
+      ["collateral", "reordered", "info"],
+    ]);
+    expect(formatDifferences(result.differences)[0]).toBe(
+      "Reference input referenceInputs[a#0] moved from position 0 to 1 (affects script context!)",
+    );
+  });
+
+  it("compares outputs by what they pay, and the fee", () => {
+    const outputs = decodeTransaction(SAMPLE_TX_HEX).outputs.slice(0, 2);
+    const tx1 = { ...baseTx, outputs };
+    const tx2 = {
+      ...baseTx,
+      outputs: [{ ...outputs[0], index: 0 }, { ...outputs[1], value: { ...outputs[1].value, lovelace: "1" } }],
+      fee: "1200",
+    };
+
+    expect(compareTransactions(tx1, tx2).differences).toMatchObject([
+      { section: "outputs", path: "outputs[1].value.lovelace", kind: "changed", severity: "warning", newValue: "1" },
+      { section: "fee", path: "fee", oldValue: "1000", newValue: "1200" },
+    ]);
+    expect(compareTransactions(tx1, { ...tx1, outputs: outputs.slice(0, 1) }).differences).toMatchObject([
+      { section: "outputs", path: "outputs[1]", kind: "removed" },
+    ]);
+  });
+
+  it("compares the collateral return and total collateral", () => {
+    const collateralReturn = decodeTransaction(SAMPLE_TX_HEX).outputs[0];
+    const tx1 = { ...baseTx, collateralReturn, totalCollateral: "5000000" };
+    const tx2 = {
+      ...baseTx,
+      collateralReturn: { ...collateralReturn, value: { ...collateralReturn.value, lovelace: "1000" } },
+      totalCollateral: "5001000",
+    };
+
+    expect(compareTransactions(tx1, tx2).differences).toMatchObject([
+      { section: "collateralReturn", path: "collateralReturn.value.lovelace", severity: "warning" },
+      { section: "totalCollateral", oldValue: "5000000", newValue: "5001000" },
+    ]);
+    expect(compareTransactions(tx1, baseTx).differences[0]).toMatchObject({
+      section: "collateralReturn",
+      kind: "changed",
+      newValue: null,
+    });
+    const reindexed = { ...tx1, collateralReturn: { ...collateralReturn, index: 1 } };
+    expect(compareTransactions(tx1, reindexed).differences).toEqual([]);
   });
 });
@@ -1,83 +1,218 @@
 import type {
+  CompareOptions,
   DecodedWitnessSet,
   DecodedTransaction,
   DecodedDatum,
+  DecodedOutput,
   DecodedRedeemer,
   ComparisonResult,
+  Difference,
+  DifferenceKind,
+  DifferenceSection,
+  SchemaDecoding,
 } from "./types.js";
+import { applyComparisonPolicy } from "./policy.js";
+
+const SECTION_LABELS: Record<DifferenceSection, string> = {
+  scriptDataHash: "Script data hash",
+  inputs: "Input",
+  outputs: "Output",
+  fee: "Fee",
+  collateral: "Collateral input",
+  collateralReturn: "Collateral return",
+  totalCollateral: "Total collateral",
+  referenceInputs: "Reference input",
+  plutusData: "Plutus data",
+  redeemers: "Redeemer",
+  plutusScripts: "Plutus script",
+  certificates: "Certificate",
+  withdrawals: "Withdrawal",
+  votes: "Vote",
+  proposals: "Proposal",
+  currentTreasuryValue: "Current treasury value",
+  donation: "Donation",
+  mint: "Mint",
+  auxiliaryDataHash: "Auxiliary data hash",
+  metadata: "Metadata",
+};
+
+/** Values longer than this go on their own TX1/TX2 lines */
+const INLINE_VALUE_LENGTH = 40;
+const MAX_VALUE_LENGTH = 80;
+
+/** Sections that change the script data hash, redeemer indices, the scripts that run or what they see */
+const ERROR_SECTIONS: DifferenceSection[] = [
+  "scriptDataHash",
+  "inputs",
+  "referenceInputs",
+  "plutusData",
+  "redeemers",
+  "plutusScripts",
+];
+
+/** Sections of output references, whose differences name the reference in the path */
+const INPUT_SECTIONS: DifferenceSection[] = ["inputs", "collateral", "referenceInputs"];
+
+function difference(
+  section: DifferenceSection,
+  path: string,
+  kind: DifferenceKind,
+  oldValue: unknown,
+  newValue: unknown,
+): Difference {
+  const severity = ERROR_SECTIONS.includes(section) ? "error" : "warning";
+  return { section, path, kind, severity, oldValue, newValue };
+}
 
 /**
- * Compare two witness sets and return detailed differences
+ * Compare two lists position by position, reporting extra items as added or removed
  */
-export function compareWitnessSets(
-  ws1: DecodedWitnessSet,
-  ws2: DecodedWitnessSet,
-): string[] {
-  return [
-    ...comparePlutusData(ws1.plutusData ?? [], ws2.plutusData ?? []),
-    ...compareRedeemers(ws1.redeemers ?? [], ws2.redeemers ?? []),
-    ...compareScriptHashes(ws1.plutusScriptHashes ?? [], ws2.plutusScriptHashes ?? []),
-  ];
+function compareLists<T>(
+  section: DifferenceSection,
+  list1: T[],
+  list2: T[],
+  compareItem: (item1: T, item2: T, path: string) => Difference[],
+  path: string = section,
+): Difference[] {
+  const diffs = list1
+    .slice(0, list2.length)
+    .flatMap((item, i) => compareItem(item, list2[i], `${path}[${i}]`));
+  list1.slice(list2.length).forEach((item, i) => {
+    diffs.push(difference(section, `${path}[${list2.length + i}]`, "removed", item, undefined));
+  });
+  list2.slice(list1.length).forEach((item, i) => {
+    diffs.push(difference(section, `${path}[${list1.length + i}]`, "added", undefined, item));
+  });
+  return diffs;
 }
 
-function comparePlutusData(pd1: DecodedDatum[], pd2: DecodedDatum[]): string[] {
-  if (pd1.length !== pd2.length) {
-    return [`Plutus data count differs: ${pd1.length} vs ${pd2.length}`];
-  }
+/**
+ * Compare two lists by item key: items only in one list are added or removed,
+ * items at another position are reordered, and matched items are compared
+ */
+function compareByKey<T>(
+  section: DifferenceSection,
+  list1: T[],
+  list2: T[],
+  key: (item: T) => string,
+  compareItem: (item1: T, item2: T, path: string) => Difference[],
+): Difference[] {
+  // The n-th item with a key in list1 pairs with the n-th in list2, so duplicates match by count
+  const positions2 = new Map<string, number[]>();
+  list2.forEach((item, j) => positions2.set(key(item), [...(positions2.get(key(item)) ?? []), j]));
+  const occurrences = new Map<string, number>();
+  const pairs = list1.map((item, i) => {
+    const k = key(item);
+    const n = occurrences.get(k) ?? 0;
+    occurrences.set(k, n + 1);
+    return { item, i, k, j: positions2.get(k)?.[n] };
+  });
+  // Order is judged among the paired items, so an added or removed item doesn't move the rest
+  const paired2 = pairs.flatMap(({ j }) => (j === undefined ? [] : [j])).sort((a, b) => a - b);
+  const diffs: Difference[] = [];
 
-  return pd1.flatMap((datum, i) => {
-    if (datum.hex === pd2[i].hex) return [];
-    return [
-      `Plutus data at index ${i} differs`,
-      `  TX1: ${datum.hex.slice(0, 80)}...`,
-      `  TX2: ${pd2[i].hex.slice(0, 80)}...`,
-      ...findJsonDifferences(datum.json, pd2[i].json, "  "),
-    ];
+  let position = 0;
+  pairs.forEach(({ item, i, k, j }) => {
+    const path = `${section}[${k}]`;
+    if (j === undefined) {
+      diffs.push(difference(section, path, "removed", item, undefined));
+      return;
+    }
+    if (paired2.indexOf(j) !== position++) {
+      diffs.push({ ...difference(section, path, "reordered", i, j), severity: "info" });
+    }
+    diffs.push(...compareItem(item, list2[j], path));
   });
+  list2.forEach((item, j) => {
+    if (!paired2.includes(j)) diffs.push(difference(section, `${section}[${key(item)}]`, "added", undefined, item));
+  });
+
+  return diffs;
 }
 
-function compareRedeemers(r1: DecodedRedeemer[], r2: DecodedRedeemer[]): string[] {
-  if (r1.length !== r2.length) {
-    return [`Redeemer count differs: ${r1.length} vs ${r2.length}`];
+/** Redeemer key as "spend:0" */
+function redeemerKey(redeemer: DecodedRedeemer): string {
+  return `${redeemer.tag.replace(/"/g, "").toLowerCase()}:${redeemer.index}`;
+}
+
+/**
+ * Compare two witness sets and return detailed differences. By default items
+ * are compared by position; with matchByContent datums are paired by hash,
+ * redeemers by (tag, index) and scripts by hash.
+ */
+export function compareWitnessSets(
+  ws1: DecodedWitnessSet,
+  ws2: DecodedWitnessSet,
+  options: CompareOptions = {},
+): Difference[] {
+  const compareScripts = (h1: string, h2: string, path: string) =>
+    h1 !== h2 ? [difference("plutusScripts", path, "changed", h1, h2)] : [];
+
+  if (options.matchByContent) {
+    return [
+      ...compareByKey("plutusData", ws1.plutusData ?? [], ws2.plutusData ?? [], (d) => d.hash, () => []),
+      ...compareByKey("redeemers", ws1.redeemers ?? [], ws2.redeemers ?? [], redeemerKey, compareRedeemers),
+      ...compareByKey(
+        "plutusScripts",
+        ws1.plutusScriptHashes ?? [],
+        ws2.plutusScriptHashes ?? [],
+        (hash) => hash,
+        compareScripts,
+      ),
+    ];
   }
 
-  return r1.flatMap((redeemer, i) => {
-    const other = r2[i];
-    const diffs: string[] = [];
+  return [
+    ...compareLists("plutusData", ws1.plutusData ?? [], ws2.plutusData ?? [], comparePlutusData),
+    ...compareLists("redeemers", ws1.redeemers ?? [], ws2.redeemers ?? [], compareRedeemers),
+    ...compareLists("plutusScripts", ws1.plutusScriptHashes ?? [], ws2.plutusScriptHashes ?? [], compareScripts),
+  ];
+}
 
-    if (redeemer.tag !== other.tag) {
-      diffs.push(`Redeemer ${i} tag differs: ${redeemer.tag} vs ${other.tag}`);
-    }
-    if (redeemer.index !== other.index) {
-      diffs.push(`Redeemer ${i} index differs: ${redeemer.index} vs ${other.index}`);
-    }
-    if (redeemer.dataHex !== other.dataHex) {
-      diffs.push(
-        `Redeemer ${i} data differs`,
-        `  TX1: ${redeemer.dataHex.slice(0, 80)}...`,
-        `  TX2: ${other.dataHex.slice(0, 80)}...`,
-      );
-    }
-    if (redeemer.exUnits.mem !== other.exUnits.mem || redeemer.exUnits.steps !== other.exUnits.steps) {
-      diffs.push(
-        `Redeemer ${i} exUnits differs: (${redeemer.exUnits.mem}, ${redeemer.exUnits.steps}) vs (${other.exUnits.mem}, ${other.exUnits.steps})`,
-      );
-    }
+/**
+ * Compare blueprint-decoded values when both sides have them, so paths use field names
+ */
+function namedValues(
+  json1: unknown,
+  json2: unknown,
+  schema1: SchemaDecoding | undefined,
+  schema2: SchemaDecoding | undefined,
+): [unknown, unknown] {
+  return schema1 && schema2 ? [schema1.value, schema2.value] : [json1, json2];
+}
 
-    return diffs;
-  });
+function comparePlutusData(datum1: DecodedDatum, datum2: DecodedDatum, path: string): Difference[] {
+  if (datum1.hex === datum2.hex) return [];
+  const [value1, value2] = namedValues(datum1.json, datum2.json, datum1.schema, datum2.schema);
+  const diffs = findJsonDifferences("plutusData", value1, value2, path);
+  // Same JSON with different bytes: an encoding-only difference
+  return diffs.length > 0 ? diffs : [difference("plutusData", path, "changed", datum1.hex, datum2.hex)];
 }
 
-function compareScriptHashes(ps1: string[], ps2: string[]): string[] {
-  if (ps1.length !== ps2.length) {
-    return [`Plutus script count differs: ${ps1.length} vs ${ps2.length}`];
+function compareRedeemers(r1: DecodedRedeemer, r2: DecodedRedeemer, path: string): Difference[] {
+  const diffs: Difference[] = [];
+
+  if (r1.tag !== r2.tag) {
+    diffs.push(difference("redeemers", `${path}.tag`, "changed", r1.tag, r2.tag));
+  }
+  if (r1.index !== r2.index) {
+    diffs.push(difference("redeemers", `${path}.index`, "changed", r1.index, r2.index));
+  }
+  if (r1.dataHex !== r2.dataHex) {
+    const [value1, value2] = namedValues(r1.dataJson, r2.dataJson, r1.dataSchema, r2.dataSchema);
+    const dataDiffs = findJsonDifferences("redeemers", value1, value2, `${path}.data`);
+    diffs.push(
+      ...(dataDiffs.length > 0 ? dataDiffs : [difference("redeemers", `${path}.data`, "changed", r1.dataHex, r2.dataHex)]),
+    );
+  }
+  if (r1.exUnits.mem !== r2.exUnits.mem) {
+    diffs.push(difference("redeemers", `${path}.exUnits.mem`, "changed", r1.exUnits.mem, r2.exUnits.mem));
+  }
+  if (r1.exUnits.steps !== r2.exUnits.steps) {
+    diffs.push(difference("redeemers", `${path}.exUnits.steps`, "changed", r1.exUnits.steps, r2.exUnits.steps));
   }
 
-  return ps1.flatMap((hash, i) =>
-    hash !== ps2[i]
-      ? [`Plutus script hash at index ${i} differs`, `  TX1: ${hash}`, `  TX2: ${ps2[i]}`]
-      : [],
-  );
+  return diffs;
 }
 
 /**
@@ -86,97 +221,266 @@ function compareScriptHashes(ps1: string[], ps2: string[]): string[] {
 export function compareTransactions(
   tx1: DecodedTransaction,
   tx2: DecodedTransaction,
+  options: CompareOptions = {},
 ): ComparisonResult {
-  const inputDifferences = compareInputs(tx1.inputs, tx2.inputs);
+  const inputDifferences = compareInputs("inputs", tx1.inputs, tx2.inputs);
+  const differences = [
+    ...compareOptional("scriptDataHash", tx1.scriptDataHash, tx2.scriptDataHash),
+    ...inputDifferences,
+    ...compareInputs("referenceInputs", tx1.referenceInputs, tx2.referenceInputs),
+    ...compareInputs("collateral", tx1.collateral, tx2.collateral),
+    ...compareCollateralReturn(tx1.collateralReturn, tx2.collateralReturn),
+    ...compareOptional("totalCollateral", tx1.totalCollateral, tx2.totalCollateral),
+    ...compareWitnessSets(tx1.witnessSet, tx2.witnessSet, options),
+    ...compareBody(tx1, tx2),
+  ];
 
   return {
     scriptDataHashMatch: tx1.scriptDataHash === tx2.scriptDataHash,
     inputOrderMatch: inputDifferences.length === 0,
-    witnessSetDifferences: compareWitnessSets(tx1.witnessSet, tx2.witnessSet),
-    inputDifferences,
+    ...applyComparisonPolicy(differences, options.policy ?? {}),
   };
 }
 
+/**
+ * Compare outputs, the fee, minted assets, certificates, withdrawals,
+ * governance and treasury fields, and metadata
+ */
+function compareBody(tx1: DecodedTransaction, tx2: DecodedTransaction): Difference[] {
+  const mintedAssets = (tx: DecodedTransaction) =>
+    tx.mint.flatMap(({ policyId, assets }) => assets.map((asset) => ({ unit: `${policyId}.${asset.assetName}`, asset })));
+
+  return [
+    ...compareLists("outputs", tx1.outputs, tx2.outputs, (output1, output2, path) =>
+      findJsonDifferences("outputs", outputFields(output1), outputFields(output2), path),
+    ),
+    ...compareOptional("fee", tx1.fee, tx2.fee),
+    ...compareKeyed(
+      "mint",
+      mintedAssets(tx1),
+      mintedAssets(tx2),
+      (m) => m.unit,
+      (m) => m.asset.quantity,
+    ),
+    ...compareLists("certificates", tx1.certificates, tx2.certificates, (cert1, cert2, path) =>
+      cert1.kind !== cert2.kind
+        ? // A different kind shifts which certificate a cert redeemer points at
+          [{ ...difference("certificates", `${path}.kind`, "changed", cert1.kind, cert2.kind), severity: "error" }]
+        : findJsonDifferences("certificates", cert1, cert2, path),
+    ),
+    ...compareKeyed(
+      "withdrawals",
+      tx1.withdrawals,
+      tx2.withdrawals,
+      (w) => w.rewardAddress,
+      (w) => w.amount,
+    ),
+    ...compareKeyed(
+      "votes",
+      tx1.votes,
+      tx2.votes,
+      (v) => `${v.voter.kind}:${v.voter.hash}/${v.actionId}`,
+      (v) => v.vote,
+    ),
+    ...compareLists("proposals", tx1.proposals, tx2.proposals, (p1, p2, path) =>
+      findJsonDifferences("proposals", p1, p2, path),
+    ),
+    ...compareOptional("currentTreasuryValue", tx1.currentTreasuryValue, tx2.currentTreasuryValue),
+    ...compareOptional("donation", tx1.donation, tx2.donation),
+    ...compareOptional("auxiliaryDataHash", tx1.auxiliaryDataHash, tx2.auxiliaryDataHash),
+    ...compareMetadata(tx1.auxiliaryData?.metadata ?? {}, tx2.auxiliaryData?.metadata ?? {}),
+  ];
+}
+
+/**
+ * What an output pays to whom, without annotations derived from the rest of
+ * the transaction (witness datum indices, CIP-68 metadata)
+ */
+function outputFields(output: DecodedOutput) {
+  return {
+    address: output.address.bech32,
+    value: output.value,
+    datum:
+      output.datum && (output.datum.type === "inline" ? { inline: output.datum.json } : { hash: output.datum.hash }),
+    referenceScript: output.referenceScript?.hash ?? null,
+  };
+}
+
+/**
+ * Compare metadata label by label
+ */
+function compareMetadata(metadata1: Record<string, unknown>, metadata2: Record<string, unknown>): Difference[] {
+  const labels = new Set([...Object.keys(metadata1), ...Object.keys(metadata2)]);
+  return [...labels].flatMap((label) => {
+    const path = `metadata[${label}]`;
+    if (!(label in metadata2)) return [difference("metadata", path, "removed", metadata1[label], undefined)];
+    if (!(label in metadata1)) return [difference("metadata", path, "added", undefined, metadata2[label])];
+    return findJsonDifferences("metadata", metadata1[label], metadata2[label], path);
+  });
+}
+
+/**
+ * Compare two collections matched by key, reporting missing entries and differing values
+ */
+function compareKeyed<T>(
+  section: DifferenceSection,
+  items1: T[],
+  items2: T[],
+  key: (item: T) => string,
+  value: (item: T) => string,
+): Difference[] {
+  const map1 = new Map(items1.map((item) => [key(item), value(item)]));
+  const map2 = new Map(items2.map((item) => [key(item), value(item)]));
+  const diffs: Difference[] = [];
+
+  for (const [k, v1] of map1) {
+    const v2 = map2.get(k);
+    if (v2 === undefined) {
+      diffs.push(difference(section, `${section}[${k}]`, "removed", v1, undefined));
+    } else if (v1 !== v2) {
+      diffs.push(difference(section, `${section}[${k}]`, "changed", v1, v2));
+    }
+  }
+  for (const [k, v2] of map2) {
+    if (!map1.has(k)) diffs.push(difference(section, `${section}[${k}]`, "added", undefined, v2));
+  }
+
+  return diffs;
+}
+
+function compareOptional(section: DifferenceSection, v1: string | null, v2: string | null): Difference[] {
+  return v1 === v2 ? [] : [difference(section, section, "changed", v1, v2)];
+}
+
+function compareCollateralReturn(
+  output1: DecodedTransaction["collateralReturn"],
+  output2: DecodedTransaction["collateralReturn"],
+): Difference[] {
+  if (!output1 || !output2) {
+    return output1 === output2 ? [] : [difference("collateralReturn", "collateralReturn", "changed", output1, output2)];
+  }
+  return findJsonDifferences("collateralReturn", outputFields(output1), outputFields(output2), "collateralReturn");
+}
+
+/**
+ * Compare inputs by reference: inputs only in one transaction are added or
+ * removed, shared inputs at another position are reordered
+ */
 function compareInputs(
+  section: DifferenceSection,
   inputs1: DecodedTransaction["inputs"],
   inputs2: DecodedTransaction["inputs"],
-): string[] {
-  if (inputs1.length !== inputs2.length) {
-    return [`Input count differs: ${inputs1.length} vs ${inputs2.length}`];
-  }
+): Difference[] {
+  const refs1 = inputs1.map((input) => `${input.txHash}#${input.index}`);
+  const refs2 = inputs2.map((input) => `${input.txHash}#${input.index}`);
+  // Order is judged among the shared inputs, so an added or removed input doesn't move the rest
+  const shared1 = refs1.filter((ref) => refs2.includes(ref));
+  const shared2 = refs2.filter((ref) => refs1.includes(ref));
+  const diffs: Difference[] = [];
 
-  return inputs1.flatMap((input, i) => {
-    const other = inputs2[i];
-    if (input.txHash === other.txHash && input.index === other.index) return [];
-    return [
-      `Input at position ${i} differs (affects redeemer indices!)`,
-      `  TX1: ${input.txHash}#${input.index}`,
-      `  TX2: ${other.txHash}#${other.index}`,
-    ];
+  refs1.forEach((ref, i) => {
+    const j = refs2.indexOf(ref);
+    if (j === -1) {
+      diffs.push(difference(section, `${section}[${ref}]`, "removed", i, undefined));
+    } else if (shared1.indexOf(ref) !== shared2.indexOf(ref)) {
+      const reordered = difference(section, `${section}[${ref}]`, "reordered", i, j);
+      // Scripts never see collateral, so only the set of collateral inputs matters
+      diffs.push(section === "collateral" ? { ...reordered, severity: "info" } : reordered);
+    }
+  });
+  refs2.forEach((ref, j) => {
+    if (!refs1.includes(ref)) diffs.push(difference(section, `${section}[${ref}]`, "added", undefined, j));
   });
+
+  return diffs;
 }
 
 /**
- * Find differences between two JSON objects (for datum comparison)
+ * Find differences between two JSON values (datums, certificates, proposals, metadata)
  */
 function findJsonDifferences(
+  section: DifferenceSection,
   obj1: unknown,
   obj2: unknown,
-  indent: string = "",
-  path: string = "",
-): string[] {
-  const diffs: string[] = [];
-
-  if (typeof obj1 !== typeof obj2) {
-    diffs.push(`${indent}Type mismatch at ${path || "root"}: ${typeof obj1} vs ${typeof obj2}`);
-    return diffs;
+  path: string,
+): Difference[] {
+  if (Array.isArray(obj1) && Array.isArray(obj2)) {
+    return compareLists(
+      section,
+      obj1,
+      obj2,
+      (item1, item2, itemPath) => findJsonDifferences(section, item1, item2, itemPath),
+      path,
+    );
   }
 
-  if (typeof obj1 === "string" && typeof obj2 === "string") {
-    if (obj1 !== obj2) {
-      diffs.push(`${indent}Value differs at ${path || "root"}:`);
-      diffs.push(`${indent}  TX1: ${obj1}`);
-      diffs.push(`${indent}  TX2: ${obj2}`);
-    }
-    return diffs;
-  }
+  if (
+    typeof obj1 === "object" && obj1 !== null && !Array.isArray(obj1) &&
+    typeof obj2 === "object" && obj2 !== null && !Array.isArray(obj2)
+  ) {
+    const record1 = obj1 as Record<string, unknown>;
+    const record2 = obj2 as Record<string, unknown>;
+    const allKeys = new Set([...Object.keys(record1), ...Object.keys(record2)]);
 
-  if (typeof obj1 === "number" && typeof obj2 === "number") {
-    if (obj1 !== obj2) {
-      diffs.push(`${indent}Value differs at ${path || "root"}: ${obj1} vs ${obj2}`);
-    }
-    return diffs;
+    return [...allKeys].flatMap((key) => {
+      const val1 = record1[key];
+      const val2 = record2[key];
+      if (val1 === undefined) return [difference(section, `${path}.${key}`, "added", undefined, val2)];
+      if (val2 === undefined) return [difference(section, `${path}.${key}`, "removed", val1, undefined)];
+      return findJsonDifferences(section, val1, val2, `${path}.${key}`);
+    });
   }
 
-  if (Array.isArray(obj1) && Array.isArray(obj2)) {
-    if (obj1.length !== obj2.length) {
-      diffs.push(`${indent}Array length differs at ${path || "root"}: ${obj1.length} vs ${obj2.length}`);
-    }
-    const len = Math.min(obj1.length, obj2.length);
-    for (let i = 0; i < len; i++) {
-      diffs.push(...findJsonDifferences(obj1[i], obj2[i], indent, `${path}[${i}]`));
-    }
-    return diffs;
-  }
+  return obj1 === obj2 ? [] : [difference(section, path, "changed", obj1, obj2)];
+}
+
+function formatValue(value: unknown): string {
+  const text = value === null || value === undefined ? "none" : typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}...` : text;
+}
+
+function isInline(...values: string[]): boolean {
+  return values.every((value) => value.length <= INLINE_VALUE_LENGTH);
+}
 
-  if (typeof obj1 === "object" && obj1 !== null && typeof obj2 === "object" && obj2 !== null) {
-    const keys1 = Object.keys(obj1 as Record<string, unknown>);
-    const keys2 = Object.keys(obj2 as Record<string, unknown>);
-    const allKeys = new Set([...keys1, ...keys2]);
-
-    for (const key of allKeys) {
-      const val1 = (obj1 as Record<string, unknown>)[key];
-      const val2 = (obj2 as Record<string, unknown>)[key];
-
-      if (val1 === undefined) {
-        diffs.push(`${indent}Missing in TX1: ${path}.${key}`);
-      } else if (val2 === undefined) {
-        diffs.push(`${indent}Missing in TX2: ${path}.${key}`);
-      } else {
-        diffs.push(...findJsonDifferences(val1, val2, indent, `${path}.${key}`));
-      }
+/**
+ * Render one difference as display lines
+ */
+function formatDifference(d: Difference): string[] {
+  const label = SECTION_LABELS[d.section];
+  const at = d.path === d.section ? "" : ` at ${d.path}`;
+  const note =
+    d.section === "inputs"
+      ? " (affects redeemer indices!)"
+      : d.section === "referenceInputs"
+        ? " (affects script context!)"
+        : d.section === "certificates" && d.path.endsWith(".kind")
+          ? " (affects cert redeemer indices!)"
+          : "";
+  const oldValue = formatValue(d.oldValue);
+  const newValue = formatValue(d.newValue);
+
+  switch (d.kind) {
+    case "reordered":
+      return [`${label} ${d.path} moved from position ${d.oldValue} to ${d.newValue}${note}`];
+    case "added":
+    case "removed": {
+      const [missingIn, presentIn, value] = d.kind === "added" ? ["TX1", "TX2", newValue] : ["TX2", "TX1", oldValue];
+      const header = `${label} missing in ${missingIn}${at}${note}`;
+      // Input positions are implied by the path
+      if (INPUT_SECTIONS.includes(d.section)) return [header];
+      return isInline(value) ? [`${header}: ${value}`] : [header, `  ${presentIn}: ${value}`];
     }
+    case "changed":
+      return isInline(oldValue, newValue)
+        ? [`${label} differs${at}: ${oldValue} vs ${newValue}${note}`]
+        : [`${label} differs${at}${note}`, `  TX1: ${oldValue}`, `  TX2: ${newValue}`];
   }
+}
 
-  return diffs;
+/**
+ * Render differences as the human-readable lines printed by the CLI
+ */
+export function formatDifferences(differences: Difference[]): string[] {
+  return differences.flatMap(formatDifference);
 }
@@ -1,9 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { decodeTransaction, decodeWitnessSet, decodePlutusData } from "./decoder.js";
-
-// Sample transaction hex from a real Cardano transaction
-const SAMPLE_TX_HEX =
-  "84a700d901028282582008c49c049c49a665cbb83644b22662af7125a8ecd365a616b82388a1a7bb551000825820c4e43afd34dd0ad3340b495e7a58f0be40691b04b556f1ab52419927f4df5b8b00018383583911a76f0fb801a29f591e9871576508d85b0b5f3c38774f65032f58fdad5139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb256821a001430a2a1581c3373f1171594fc4be7f7e3a099252cd085a9734a5dfe4732e2311921a14d576f6e6465724d696c6b303935015820e735f209d58839f565e0190d00b9f6619b93793bdb45647256c29af4e4983af883583911a76f0fb801a29f591e9871576508d85b0b5f3c38774f65032f58fdad5139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb256821a001430a2a1581c3373f1171594fc4be7f7e3a099252cd085a9734a5dfe4732e2311921a14d576f6e6465724d696c6b303136015820493a91d5154bbf1e0f0ce025f84b0b052418c1fe62e93e8dd7b974b1da85d12882583901c8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca35854285139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb2561a164cd26b021a00036a51031a0a8ac2e307582010d70a7bf1ff1ed57b4ac55c6ed323880724390905b3f69b92615166c3ac9699081a0a8aa6b30b58205e4edebba50f3bf7be0d7ff7e07619b63d4edea30be0de8f641e5561206ef921a104d901029fd8799f9fd8799fd8799fd8799f581cc8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca3585428ffd8799fd8799fd8799f581c5139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb256ffffffff1a0a7d8c00ffd8799fd8799fd8799f581cd3854a7de25ea94326fec3b65ac36f20d59930118d83fead972d600effd8799fd8799fd8799f581c11a0974ad3660a0ffca16e2c72cce55033f225ee9a9f39fe23686209ffffffff1a01312d00ffff581cc8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca3585428ffd8799f9fd8799fd8799fd8799f581cc8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca3585428ffd8799fd8799fd8799f581c5139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb256ffffffff1a0fbc5200ffd8799fd8799fd8799f581cd3854a7de25ea94326fec3b65ac36f20d59930118d83fead972d600effd8799fd8799fd8799f581c11a0974ad3660a0ffca16e2c72cce55033f225ee9a9f39fe23686209ffffffff1a01c9c380ffff581cc8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca3585428fffff5a11902a2a1636d7367715761797570205472616e73616374696f6e";
+import {
+  FixedTransaction,
+  PlutusData,
+  Transaction,
+  TransactionWitnessSet,
+  hash_plutus_data,
+} from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { decodeTransaction, decodeWitnessSet, decodePlutusData, toArray } from "./decoder.js";
+import { SAMPLE_TX_HEX, REDEEMER_TX_HEX, CONWAY_TX_HEX, PLUTUS_TX_HEX } from "./test-fixtures.js";
 
 describe("decodeTransaction", () => {
   it("decodes a valid transaction", () => {
@@ -27,6 +31,43 @@ describe("decodeTransaction", () => {
     expect(result.inputs[0].index).toBe(0);
   });
 
+  it("decodes minting and burning per policy with its redeemer", () => {
+    const result = decodeTransaction(REDEEMER_TX_HEX);
+
+    expect(result.mint).toEqual([
+      {
+        policyId: "d".repeat(56),
+        assets: [{ assetName: "746f6b656e", name: "token", label: null, quantity: "1" }],
+        script: null,
+        redeemerIndex: "1",
+      },
+      {
+        policyId: "c".repeat(56),
+        assets: [{ assetName: "78", name: "x", label: null, quantity: "-1" }],
+        script: null,
+        redeemerIndex: null,
+      },
+    ]);
+  });
+
+  it("decodes witness set scripts with language and size", () => {
+    const result = decodeTransaction(PLUTUS_TX_HEX);
+
+    expect(result.witnessSet.plutusScripts).toEqual([
+      { hash: "3a888d65f16790950a72daee1f63aa05add6d268434107cfa5b67712", language: "PlutusV2", size: 9, source: "witness" },
+    ]);
+    expect(result.witnessSet.plutusScriptHashes).toEqual(["3a888d65f16790950a72daee1f63aa05add6d268434107cfa5b67712"]);
+  });
+
+  it("decodes metadata and checks the auxiliary data hash", () => {
+    const result = decodeTransaction(SAMPLE_TX_HEX);
+
+    expect(result.auxiliaryData?.metadata).toEqual({ 674: { msg: "Wayup Transaction" } });
+    expect(result.auxiliaryData?.messages).toEqual(["Wayup Transaction"]);
+    expect(result.auxiliaryData?.hash).toBe(result.auxiliaryDataHash);
+    expect(decodeTransaction(CONWAY_TX_HEX).auxiliaryData).toBeNull();
+  });
+
   it("extracts witness set with plutus data", () => {
     const result = decodeTransaction(SAMPLE_TX_HEX);
 
@@ -34,6 +75,96 @@ describe("decodeTransaction", () => {
     expect(result.witnessSet.plutusData).toHaveLength(2);
   });
 
+  it("decodes outputs with address, value and datum hash", () => {
+    const result = decodeTransaction(SAMPLE_TX_HEX);
+
+    expect(result.outputs).toHaveLength(3);
+    expect(result.outputs[0].address.paymentCredential).toEqual({
+      type: "script",
+      hash: "a76f0fb801a29f591e9871576508d85b0b5f3c38774f65032f58fdad",
+    });
+    expect(result.outputs[0].address.stakeCredential?.hash).toBe(
+      "5139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb256"
+    );
+    expect(result.outputs[0].value).toEqual({
+      lovelace: "1323170",
+      assets: {
+        "3373f1171594fc4be7f7e3a099252cd085a9734a5dfe4732e2311921": {
+          "576f6e6465724d696c6b303935": "1",
+        },
+      },
+    });
+    expect(result.outputs[0].datum).toEqual({
+      type: "hash",
+      hash: "e735f209d58839f565e0190d00b9f6619b93793bdb45647256c29af4e4983af8",
+      witnessIndex: 0,
+    });
+    expect(result.outputs[0].referenceScript).toBeNull();
+  });
+
+  it("computes the transaction id, datum hashes and redeemer data hashes", () => {
+    const result = decodeTransaction(SAMPLE_TX_HEX);
+
+    expect(result.txHash).toBe(FixedTransaction.from_hex(SAMPLE_TX_HEX).transaction_hash().to_hex());
+    expect(result.witnessSet.plutusData!.map((d) => d.hash)).toEqual(
+      toArray(Transaction.from_hex(SAMPLE_TX_HEX).witness_set().plutus_data()).map((d) => hash_plutus_data(d).to_hex()),
+    );
+    const [spend] = decodeTransaction(REDEEMER_TX_HEX).witnessSet.redeemers!;
+    expect(spend.dataHash).toBe(hash_plutus_data(PlutusData.from_hex(spend.dataHex)).to_hex());
+  });
+
+  it("flags output datum hashes the witness set doesn't supply", () => {
+    const tx = Transaction.from_hex(SAMPLE_TX_HEX);
+    const withoutDatums = Transaction.new(tx.body(), TransactionWitnessSet.new(), tx.auxiliary_data());
+    const [output] = decodeTransaction(withoutDatums.to_hex()).outputs;
+
+    expect(output.datum).toMatchObject({ type: "hash", witnessIndex: null });
+  });
+
+  it("decodes a plain key output without datum", () => {
+    const output = decodeTransaction(SAMPLE_TX_HEX).outputs[2];
+
+    expect(output.address.bech32).toMatch(/^addr1q/);
+    expect(output.address.paymentCredential?.type).toBe("key");
+    expect(output.value).toEqual({ lovelace: "374133355", assets: {} });
+    expect(output.datum).toBeNull();
+  });
+
+  it("resolves redeemer indices against sorted inputs and policies", () => {
+    const [spend, mint, cert] = decodeTransaction(REDEEMER_TX_HEX).witnessSet.redeemers!;
+
+    expect(spend.target).toEqual({ purpose: "spend", ref: `${"a".repeat(64)}#1` });
+    expect(mint.target).toEqual({ purpose: "mint", ref: "d".repeat(56) });
+    expect(cert.target).toBeNull();
+  });
+
+  it("decodes Conway certificates, withdrawals and governance fields", () => {
+    const result = decodeTransaction(CONWAY_TX_HEX);
+
+    expect(result.certificates.map((c) => c.kind)).toEqual([
+      "VoteDelegation",
+      "DRepRegistration",
+      "CommitteeHotAuth",
+    ]);
+    expect(result.certificates[0].drep).toBe("AlwaysAbstain");
+    expect(result.certificates[1].deposit).toBe("500000000");
+    expect(result.certificates[1].anchor?.url).toBe("https://example.com/drep.json");
+    expect(result.certificates[2].hotCredential?.type).toBe("script");
+    expect(result.withdrawals).toEqual([
+      {
+        rewardAddress: "stake1uyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygppv7wd",
+        credential: { type: "key", hash: "1".repeat(56) },
+        amount: "1500",
+      },
+    ]);
+    expect(result.votes).toEqual([
+      { voter: { kind: "DRepScriptHash", hash: "2".repeat(56) }, actionId: `${"4".repeat(64)}#2`, vote: "Yes" },
+    ]);
+    expect(result.proposals[0].kind).toBe("InfoAction");
+    expect(result.currentTreasuryValue).toBe("1000000");
+    expect(result.donation).toBe("7");
+  });
+
   it("throws on invalid hex", () => {
     expect(() => decodeTransaction("invalid")).toThrow();
   });
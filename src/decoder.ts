@@ -1,8 +1,33 @@
 import {
   Transaction,
   TransactionWitnessSet,
+  TransactionOutput,
+  TransactionInputs,
   PlutusData,
   PlutusDatumSchema,
+  Address,
+  AddressKind,
+  BaseAddress,
+  ByronAddress,
+  Credential,
+  CredKind,
+  LanguageKind,
+  ScriptRef,
+  Value,
+  TransactionBody,
+  RedeemerTagKind,
+  CertificateKind,
+  GovernanceActionKind,
+  Voter,
+  VoterKind,
+  VoteKind,
+  Certificate,
+  DRep,
+  DRepKind,
+  Anchor,
+  Vkeywitness,
+  NativeScript,
+  NativeScriptKind,
 } from "@emurgo/cardano-serialization-lib-nodejs-gc";
 import type {
   DecodedDatum,
@@ -10,14 +35,348 @@ import type {
   DecodedWitnessSet,
   DecodedTransaction,
   DecodedInput,
+  DecodedCredential,
+  DecodedAddress,
+  DecodedValue,
+  DecodedOutput,
+  DecodedScriptRef,
+  RedeemerPurpose,
+  DecodedAnchor,
+  DecodedCertificate,
+  DecodedWithdrawal,
+  DecodedVote,
+  DecodedProposal,
+  DecodedVkeyWitness,
+  DecodedMint,
+  DecodedNativeScript,
+  PlutusLanguage,
 } from "./types.js";
+import { blake2b256Hex } from "./blake2b.js";
+import { decodeCbor, rawHex } from "./cbor.js";
+import { decodeAssetName, decodeAuxiliaryData, decodeCip68Metadata } from "./metadata.js";
 
 /** Helper to convert CSL list-like objects to arrays */
-function toArray<T>(list: { len(): number; get(i: number): T } | undefined): T[] {
+export function toArray<T>(list: { len(): number; get(i: number): T } | undefined): T[] {
   if (!list || list.len() === 0) return [];
   return Array.from({ length: list.len() }, (_, i) => list.get(i));
 }
 
+export function decodeInputs(inputs: TransactionInputs | undefined): DecodedInput[] {
+  return toArray(inputs).map((input) => ({
+    txHash: input.transaction_id().to_hex(),
+    index: input.index(),
+  }));
+}
+
+export function decodeCredential(cred: Credential): DecodedCredential {
+  return cred.kind() === CredKind.Script
+    ? { type: "script", hash: cred.to_scripthash()!.to_hex() }
+    : { type: "key", hash: cred.to_keyhash()!.to_hex() };
+}
+
+/**
+ * Decode an address into its bech32 form and credentials
+ */
+function decodeAddress(address: Address): DecodedAddress {
+  const kind = address.kind();
+  const byron = ByronAddress.from_address(address);
+  const stakeCred =
+    kind === AddressKind.Reward ? address.payment_cred() : BaseAddress.from_address(address)?.stake_cred();
+
+  return {
+    bech32: byron ? byron.to_base58() : address.to_bech32(),
+    kind: AddressKind[kind],
+    networkId: address.network_id(),
+    paymentCredential:
+      kind === AddressKind.Reward || !address.payment_cred() ? null : decodeCredential(address.payment_cred()!),
+    stakeCredential: stakeCred ? decodeCredential(stakeCred) : null,
+  };
+}
+
+/**
+ * Decode a value into lovelace and a policy -> asset name -> quantity map
+ */
+export function decodeValue(value: Value): DecodedValue {
+  const assets: DecodedValue["assets"] = {};
+  const multiasset = value.multiasset();
+
+  toArray(multiasset?.keys()).forEach((policyId) => {
+    const policyAssets = multiasset!.get(policyId)!;
+    assets[policyId.to_hex()] = Object.fromEntries(
+      toArray(policyAssets.keys()).map((name) => [
+        Buffer.from(name.name()).toString("hex"),
+        policyAssets.get(name)!.to_str(),
+      ]),
+    );
+  });
+
+  return { lovelace: value.coin().to_str(), assets };
+}
+
+/**
+ * Decode a reference script; size is what the Conway reference-script fee charges for
+ */
+function decodeScriptRef(scriptRef: ScriptRef): DecodedScriptRef {
+  const plutus = scriptRef.plutus_script();
+  if (plutus) {
+    return {
+      hash: plutus.hash().to_hex(),
+      language: LanguageKind[plutus.language_version().kind()],
+      size: plutus.bytes().length,
+    };
+  }
+  const native = scriptRef.native_script()!;
+  return { hash: native.hash().to_hex(), language: "Native", size: native.to_bytes().length };
+}
+
+/**
+ * Decode a transaction output with its address, value, datum and reference script
+ */
+export function decodeOutput(output: TransactionOutput, index: number): DecodedOutput {
+  const dataHash = output.data_hash();
+  const inlineDatum = output.plutus_data();
+  const scriptRef = output.script_ref();
+  const value = decodeValue(output.amount());
+  const datumJson = inlineDatum && JSON.parse(inlineDatum.to_json(PlutusDatumSchema.DetailedSchema));
+  const cip68 = datumJson && decodeCip68Metadata(value, datumJson);
+
+  return {
+    index,
+    address: decodeAddress(output.address()),
+    value,
+    datum: inlineDatum
+      ? { type: "inline", hex: inlineDatum.to_hex(), hash: blake2b256Hex(inlineDatum.to_hex()), json: datumJson }
+      : dataHash
+        ? { type: "hash", hash: dataHash.to_hex() }
+        : null,
+    referenceScript: scriptRef ? decodeScriptRef(scriptRef) : null,
+    ...(cip68 && { cip68 }),
+  };
+}
+
+function decodeAnchor(anchor: Anchor): DecodedAnchor {
+  return { url: anchor.url().url(), dataHash: anchor.anchor_data_hash().to_hex() };
+}
+
+function formatDRep(drep: DRep): string {
+  const kind = drep.kind();
+  if (kind === DRepKind.KeyHash) return `key:${drep.to_key_hash()!.to_hex()}`;
+  if (kind === DRepKind.ScriptHash) return `script:${drep.to_script_hash()!.to_hex()}`;
+  return DRepKind[kind];
+}
+
+/**
+ * Decode a certificate into its kind and the credentials, pool, DRep and deposit it carries
+ */
+function decodeCertificate(cert: Certificate, index: number): DecodedCertificate {
+  const decoded: DecodedCertificate = { index, kind: CertificateKind[cert.kind()] };
+  const stake =
+    cert.as_stake_registration() ??
+    cert.as_stake_deregistration() ??
+    cert.as_stake_delegation() ??
+    cert.as_stake_and_vote_delegation() ??
+    cert.as_stake_registration_and_delegation() ??
+    cert.as_stake_vote_registration_and_delegation() ??
+    cert.as_vote_delegation() ??
+    cert.as_vote_registration_and_delegation();
+
+  if (stake) {
+    decoded.credential = decodeCredential(stake.stake_credential());
+    if ("pool_keyhash" in stake) decoded.poolKeyHash = stake.pool_keyhash().to_hex();
+    if ("drep" in stake) decoded.drep = formatDRep(stake.drep());
+    const deposit = "coin" in stake ? stake.coin() : undefined;
+    if (deposit) decoded.deposit = deposit.to_str();
+    return decoded;
+  }
+
+  const drepCert = cert.as_drep_registration() ?? cert.as_drep_deregistration() ?? cert.as_drep_update();
+  if (drepCert) {
+    decoded.credential = decodeCredential(drepCert.voting_credential());
+    if ("coin" in drepCert) decoded.deposit = drepCert.coin().to_str();
+    const anchor = "anchor" in drepCert ? drepCert.anchor() : undefined;
+    if (anchor) decoded.anchor = decodeAnchor(anchor);
+    return decoded;
+  }
+
+  const hotAuth = cert.as_committee_hot_auth();
+  if (hotAuth) {
+    decoded.credential = decodeCredential(hotAuth.committee_cold_credential());
+    decoded.hotCredential = decodeCredential(hotAuth.committee_hot_credential());
+    return decoded;
+  }
+
+  const coldResign = cert.as_committee_cold_resign();
+  if (coldResign) {
+    decoded.credential = decodeCredential(coldResign.committee_cold_credential());
+    const anchor = coldResign.anchor();
+    if (anchor) decoded.anchor = decodeAnchor(anchor);
+    return decoded;
+  }
+
+  const poolRegistration = cert.as_pool_registration();
+  if (poolRegistration) {
+    decoded.poolKeyHash = poolRegistration.pool_params().operator().to_hex();
+    return decoded;
+  }
+
+  const poolRetirement = cert.as_pool_retirement();
+  if (poolRetirement) {
+    decoded.poolKeyHash = poolRetirement.pool_keyhash().to_hex();
+    decoded.epoch = poolRetirement.epoch();
+  }
+  return decoded;
+}
+
+function decodeVotes(body: TransactionBody): DecodedVote[] {
+  const procedures = body.voting_procedures();
+  if (!procedures) return [];
+
+  return toArray(procedures.get_voters())
+    .filter((voter): voter is Voter => voter !== undefined)
+    .flatMap((voter) =>
+      toArray(procedures.get_governance_action_ids_by_voter(voter))
+        .filter((actionId) => actionId !== undefined)
+        .map((actionId) => {
+          const procedure = procedures.get(voter, actionId!)!;
+          const anchor = procedure.anchor();
+          return {
+            voter: { kind: VoterKind[voter.kind()], hash: voterHash(voter) },
+            actionId: `${actionId!.transaction_id().to_hex()}#${actionId!.index()}`,
+            vote: VoteKind[procedure.vote_kind()],
+            ...(anchor && { anchor: decodeAnchor(anchor) }),
+          };
+        }),
+    );
+}
+
+/** Script purpose of each redeemer tag */
+export const REDEEMER_PURPOSES: Record<RedeemerTagKind, RedeemerPurpose> = {
+  [RedeemerTagKind.Spend]: "spend",
+  [RedeemerTagKind.Mint]: "mint",
+  [RedeemerTagKind.Cert]: "cert",
+  [RedeemerTagKind.Reward]: "reward",
+  [RedeemerTagKind.Vote]: "vote",
+  [RedeemerTagKind.VotingProposal]: "propose",
+};
+
+/** Ledger voter order: committee, DRep, pool; script credentials before key hashes */
+const VOTER_ORDER: Record<VoterKind, number> = {
+  [VoterKind.ConstitutionalCommitteeHotScriptHash]: 0,
+  [VoterKind.ConstitutionalCommitteeHotKeyHash]: 1,
+  [VoterKind.DRepScriptHash]: 2,
+  [VoterKind.DRepKeyHash]: 3,
+  [VoterKind.StakingPoolKeyHash]: 4,
+};
+
+function voterHash(voter: Voter): string {
+  const cred = voter.to_constitutional_committee_hot_credential() ?? voter.to_drep_credential();
+  return cred ? decodeCredential(cred).hash : voter.to_stake_pool_key_hash()!.to_hex();
+}
+
+/** Sort by key with plain code-unit comparison, matching the ledger's byte ordering */
+function sortBy<T>(items: T[], key: (item: T) => string): T[] {
+  return [...items].sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0));
+}
+
+/**
+ * List what each redeemer purpose indexes into, in the order the ledger
+ * assigns indices: sorted inputs, policies, reward accounts and voters,
+ * certificates and proposals as they appear in the body.
+ */
+function redeemerTargets(body: TransactionBody): Record<RedeemerPurpose, string[]> {
+  const inputs = sortBy(
+    toArray(body.inputs()).map((input) => ({ txHash: input.transaction_id().to_hex(), index: input.index() })),
+    (input) => `${input.txHash}${input.index.toString(16).padStart(8, "0")}`,
+  );
+
+  const withdrawals = sortBy(toArray(body.withdrawals()?.keys()), (address) => {
+    const cred = address.payment_cred();
+    return `${address.network_id()}${cred.kind() === CredKind.Script ? 0 : 1}${decodeCredential(cred).hash}`;
+  });
+
+  const voters = sortBy(
+    toArray(body.voting_procedures()?.get_voters()).filter((voter): voter is Voter => voter !== undefined),
+    (voter) => `${VOTER_ORDER[voter.kind()]}${voterHash(voter)}`,
+  );
+
+  return {
+    spend: inputs.map((input) => `${input.txHash}#${input.index}`),
+    mint: sortBy(toArray(body.mint()?.keys()), (policy) => policy.to_hex()).map((policy) => policy.to_hex()),
+    cert: toArray(body.certs()).map((cert, i) => `cert #${i} ${CertificateKind[cert.kind()]}`),
+    reward: withdrawals.map((address) => address.to_address().to_bech32()),
+    vote: voters.map((voter) => `${VoterKind[voter.kind()]} ${voterHash(voter)}`),
+    propose: toArray(body.voting_proposals()).map(
+      (proposal, i) => `proposal #${i} ${GovernanceActionKind[proposal.governance_action().kind()]}`,
+    ),
+  };
+}
+
+/**
+ * Decode minted and burned assets per policy, linked to the policy script in
+ * the witness set and to the policy's mint redeemer
+ */
+function decodeMint(tx: Transaction, redeemers: DecodedRedeemer[]): DecodedMint[] {
+  const mint = tx.body().mint();
+  const ws = tx.witness_set();
+  const scripts = new Map<string, string>();
+  toArray(ws.plutus_scripts()).forEach((script) => {
+    scripts.set(script.hash().to_hex(), LanguageKind[script.language_version().kind()]);
+  });
+  toArray(ws.native_scripts()).forEach((script) => scripts.set(script.hash().to_hex(), "Native"));
+
+  return toArray(mint?.keys()).map((policy) => {
+    const policyId = policy.to_hex();
+    // A policy may appear more than once in the encoding; keep every entry
+    const assets = toArray(mint!.get(policy)).flatMap((mintAssets) =>
+      toArray(mintAssets?.keys()).map((name) => {
+        const assetName = Buffer.from(name.name()).toString("hex");
+        return { assetName, ...decodeAssetName(assetName), quantity: mintAssets!.get(name)!.to_str() };
+      }),
+    );
+    const language = scripts.get(policyId);
+    const redeemer = redeemers.find((r) => r.target?.purpose === "mint" && r.target.ref === policyId);
+    return {
+      policyId,
+      assets,
+      script: language ? { source: "witness" as const, language } : null,
+      redeemerIndex: redeemer?.index ?? null,
+    };
+  });
+}
+
+/**
+ * Decode a native script into its tree
+ */
+export function decodeNativeScript(script: NativeScript): DecodedNativeScript {
+  switch (script.kind()) {
+    case NativeScriptKind.ScriptPubkey:
+      return { type: "sig", keyHash: script.as_script_pubkey()!.addr_keyhash().to_hex() };
+    case NativeScriptKind.ScriptAll:
+      return { type: "all", scripts: toArray(script.as_script_all()!.native_scripts()).map(decodeNativeScript) };
+    case NativeScriptKind.ScriptAny:
+      return { type: "any", scripts: toArray(script.as_script_any()!.native_scripts()).map(decodeNativeScript) };
+    case NativeScriptKind.ScriptNOfK: {
+      const nOfK = script.as_script_n_of_k()!;
+      return { type: "atLeast", required: nOfK.n(), scripts: toArray(nOfK.native_scripts()).map(decodeNativeScript) };
+    }
+    case NativeScriptKind.TimelockStart:
+      return { type: "after", slot: script.as_timelock_start()!.slot_bignum().to_str() };
+    case NativeScriptKind.TimelockExpiry:
+      return { type: "before", slot: script.as_timelock_expiry()!.slot_bignum().to_str() };
+    default:
+      throw new Error(`Unknown native script kind ${script.kind()}`);
+  }
+}
+
+export function decodeVkeyWitness(witness: Vkeywitness): DecodedVkeyWitness {
+  const publicKey = witness.vkey().public_key();
+  return {
+    publicKey: publicKey.to_hex(),
+    keyHash: publicKey.hash().to_hex(),
+    signature: witness.signature().to_hex(),
+  };
+}
+
 /**
  * Decode a witness set from hex
  */
@@ -27,6 +386,7 @@ export function decodeWitnessSet(witnessHex: string): DecodedWitnessSet {
   const plutusData = toArray(witnessSet.plutus_data()).map((datum, index) => ({
     index,
     hex: datum.to_hex(),
+    hash: blake2b256Hex(datum.to_hex()),
     json: JSON.parse(datum.to_json(PlutusDatumSchema.DetailedSchema)),
   }));
 
@@ -34,6 +394,7 @@ export function decodeWitnessSet(witnessHex: string): DecodedWitnessSet {
     tag: redeemer.tag().to_json(),
     index: redeemer.index().to_str(),
     dataHex: redeemer.data().to_hex(),
+    dataHash: blake2b256Hex(redeemer.data().to_hex()),
     dataJson: JSON.parse(redeemer.data().to_json(PlutusDatumSchema.DetailedSchema)),
     exUnits: {
       mem: redeemer.ex_units().mem().to_str(),
@@ -41,16 +402,27 @@ export function decodeWitnessSet(witnessHex: string): DecodedWitnessSet {
     },
   }));
 
-  const plutusScriptHashes = toArray(witnessSet.plutus_scripts()).map((script) =>
-    script.hash().to_hex()
-  );
+  const plutusScripts = toArray(witnessSet.plutus_scripts()).map((script) => ({
+    hash: script.hash().to_hex(),
+    language: LanguageKind[script.language_version().kind()] as PlutusLanguage,
+    size: script.bytes().length,
+    source: "witness" as const,
+  }));
+  const plutusScriptHashes = plutusScripts.map((script) => script.hash);
+
+  const vkeys = toArray(witnessSet.vkeys()).map(decodeVkeyWitness);
+
+  const nativeScripts = toArray(witnessSet.native_scripts()).map((script) => ({
+    hash: script.hash().to_hex(),
+    script: decodeNativeScript(script),
+  }));
 
   return {
     ...(plutusData.length > 0 && { plutusData }),
     ...(redeemers.length > 0 && { redeemers }),
-    ...(plutusScriptHashes.length > 0 && { plutusScriptHashes }),
-    ...(witnessSet.native_scripts()?.len() && { nativeScriptCount: witnessSet.native_scripts()!.len() }),
-    ...(witnessSet.vkeys()?.len() && { vkeyCount: witnessSet.vkeys()!.len() }),
+    ...(plutusScripts.length > 0 && { plutusScriptHashes, plutusScripts }),
+    ...(nativeScripts.length > 0 && { nativeScriptCount: nativeScripts.length, nativeScripts }),
+    ...(vkeys.length > 0 && { vkeyCount: vkeys.length, vkeys }),
     ...(witnessSet.bootstraps()?.len() && { bootstrapCount: witnessSet.bootstraps()!.len() }),
   };
 }
@@ -62,14 +434,55 @@ export function decodeTransaction(txHex: string): DecodedTransaction {
   const tx = Transaction.from_hex(txHex);
   const body = tx.body();
 
-  const inputs = toArray(body.inputs()).map((input) => ({
-    txHash: input.transaction_id().to_hex(),
-    index: input.index(),
-  }));
+  const inputs = decodeInputs(body.inputs());
+
+  const outputs = toArray(body.outputs()).map(decodeOutput);
+  const collateralReturn = body.collateral_return();
 
   const requiredSigners = toArray(body.required_signers()).map((s) => s.to_hex());
 
+  const certificates = toArray(body.certs()).map(decodeCertificate);
+
+  const withdrawalsMap = body.withdrawals();
+  const withdrawals: DecodedWithdrawal[] = toArray(withdrawalsMap?.keys()).map((address) => ({
+    rewardAddress: address.to_address().to_bech32(),
+    credential: decodeCredential(address.payment_cred()),
+    amount: withdrawalsMap!.get(address)!.to_str(),
+  }));
+
+  const proposals: DecodedProposal[] = toArray(body.voting_proposals()).map((proposal, index) => ({
+    index,
+    kind: GovernanceActionKind[proposal.governance_action().kind()],
+    deposit: proposal.deposit().to_str(),
+    rewardAddress: proposal.reward_account().to_address().to_bech32(),
+    anchor: decodeAnchor(proposal.anchor()),
+  }));
+
+  const witnessSet = decodeWitnessSet(tx.witness_set().to_hex());
+  const targets = redeemerTargets(body);
+  const purposes = toArray(tx.witness_set().redeemers()).map((r) => REDEEMER_PURPOSES[r.tag().kind()]);
+  witnessSet.redeemers?.forEach((redeemer, i) => {
+    const ref = targets[purposes[i]][Number(redeemer.index)];
+    redeemer.target = ref === undefined ? null : { purpose: purposes[i], ref };
+  });
+
+  // Link output datum hashes to the witness set datums that supply them
+  const datumIndex = new Map(witnessSet.plutusData?.map((datum) => [datum.hash, datum.index]));
+  outputs.forEach((output) => {
+    if (output.datum?.type === "hash") output.datum.witnessIndex = datumIndex.get(output.datum.hash) ?? null;
+  });
+
+  // The body and auxiliary data are hashed as encoded, so decode them from the raw bytes
+  const bytes = Buffer.from(txHex, "hex");
+  const txNode = decodeCbor(bytes);
+  if (txNode.type !== "array") {
+    throw new Error("Transaction CBOR is not an array");
+  }
+  const auxiliaryNode = txNode.items[txNode.items.length - 1];
+  const hasAuxiliaryData = !(auxiliaryNode.type === "simple" && auxiliaryNode.value === null);
+
   return {
+    txHash: blake2b256Hex(rawHex(bytes, txNode.items[0])),
     scriptDataHash: body.script_data_hash()?.to_hex() ?? null,
     inputCount: body.inputs().len(),
     outputCount: body.outputs().len(),
@@ -77,8 +490,23 @@ export function decodeTransaction(txHex: string): DecodedTransaction {
     ttl: body.ttl_bignum()?.to_str() ?? null,
     validityStart: body.validity_start_interval_bignum()?.to_str() ?? null,
     requiredSigners,
-    witnessSet: decodeWitnessSet(tx.witness_set().to_hex()),
+    witnessSet,
     inputs,
+    outputs,
+    collateral: decodeInputs(body.collateral()),
+    // Its index is the one the ledger gives it if a script fails: after the regular outputs
+    collateralReturn: collateralReturn ? decodeOutput(collateralReturn, outputs.length) : null,
+    totalCollateral: body.total_collateral()?.to_str() ?? null,
+    referenceInputs: decodeInputs(body.reference_inputs()),
+    mint: decodeMint(tx, witnessSet.redeemers ?? []),
+    certificates,
+    withdrawals,
+    votes: decodeVotes(body),
+    proposals,
+    currentTreasuryValue: body.current_treasury_value()?.to_str() ?? null,
+    donation: body.donation()?.to_str() ?? null,
+    auxiliaryDataHash: body.auxiliary_data_hash()?.to_hex() ?? null,
+    auxiliaryData: hasAuxiliaryData ? decodeAuxiliaryData(bytes, auxiliaryNode) : null,
   };
 }
 
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { cborDiagnostic, compareEncodings } from "./diagnostic.js";
+import { SAMPLE_TX_HEX } from "./test-fixtures.js";
+
+describe("cborDiagnostic", () => {
+  it("prints items with byte offsets, indefinite lengths, tags and non-shortest headers", () => {
+    // { 0: [_ 1, 2], 1: 258([5 (1-byte argument), 6 (2-byte argument)]) }
+    expect(cborDiagnostic("a2009f0102ff01d90102821805190006")).toBe(
+      [
+        " 0  {",
+        " 1    0: [_",
+        " 3      1,",
+        " 4      2",
+        " 5    ],",
+        " 6    1: 258([",
+        "11      5_0,",
+        "13      6_1",
+        "      ])",
+        "    }",
+      ].join("\n"),
+    );
+  });
+
+  it("prints indefinite-length string chunks and empty containers", () => {
+    expect(cborDiagnostic("9f5f4101ff80bf7f6161ffa0fff97e00ff").split("\n")).toEqual([
+      " 0  [_",
+      " 1    (_ h'01'),",
+      " 5    [],",
+      " 6    {_",
+      " 7      (_ \"a\"): {}",
+      "12    },",
+      "13    NaN",
+      "16  ]",
+    ]);
+  });
+
+  it("shows a transaction section by path", () => {
+    expect(cborDiagnostic(SAMPLE_TX_HEX, "body.fee")).toBe("441  223825");
+    expect(cborDiagnostic(SAMPLE_TX_HEX, "body.outputs[0]")).toContain(
+      "h'e735f209d58839f565e0190d00b9f6619b93793bdb45647256c29af4e4983af8'",
+    );
+    expect(cborDiagnostic(SAMPLE_TX_HEX, "witnessSet.plutusData").split("\n")[0]).toBe("530  258([_");
+    expect(() => cborDiagnostic(SAMPLE_TX_HEX, "witnessSet.redeemers")).toThrow(/Unknown section/);
+  });
+});
+
+describe("compareEncodings", () => {
+  it("returns null for identical encodings", () => {
+    expect(compareEncodings(SAMPLE_TX_HEX, SAMPLE_TX_HEX)).toBeNull();
+  });
+
+  it("locates the first diverging byte in a changed field", () => {
+    // Fee (body key 2) 223825 -> 223826
+    const changed = SAMPLE_TX_HEX.replace("021a00036a51", "021a00036a52");
+
+    expect(compareEncodings(SAMPLE_TX_HEX, changed)).toMatchObject({
+      offset: 445,
+      tx1: { path: "body.fee", structure: "integer 223825" },
+      tx2: { path: "body.fee", structure: "integer 223826" },
+    });
+  });
+
+  it("tells a tag 258 set from a plain array", () => {
+    // [{ 0: 258([h'00']) }, {}, true, null] vs [{ 0: [h'00'] }, {}, true, null]
+    expect(compareEncodings("84a100d90102814100a0f5f6", "84a100814100a0f5f6")).toEqual({
+      offset: 3,
+      tx1: { path: "body.inputs", structure: "tag 258 (set)", byte: "d9" },
+      tx2: { path: "body.inputs", structure: "array of 1 item", byte: "81" },
+    });
+  });
+
+  it("flags definite vs indefinite lengths in the witness set", () => {
+    // Redeemers as an indefinite vs definite-length array
+    const result = compareEncodings("84a0a1059f80fff5f6", "84a0a1058180f5f6");
+
+    expect(result?.tx1).toMatchObject({ path: "witnessSet.redeemers", structure: "indefinite-length array of 1 item" });
+    expect(result?.tx2).toMatchObject({ path: "witnessSet.redeemers", structure: "array of 1 item" });
+  });
+});
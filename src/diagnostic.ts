@@ -0,0 +1,312 @@
+import { decodeCbor, decodeCborAt, type CborNode } from "./cbor.js";
+import { WITNESS_SET_KEYS } from "./fee.js";
+import type { EncodingDifference, EncodingDivergence } from "./types.js";
+
+/** Transaction body map keys, named as in DecodedTransaction where it has them */
+const BODY_KEYS: Record<number, string> = {
+  0: "inputs",
+  1: "outputs",
+  2: "fee",
+  3: "ttl",
+  4: "certificates",
+  5: "withdrawals",
+  6: "update",
+  7: "auxiliaryDataHash",
+  8: "validityStart",
+  9: "mint",
+  11: "scriptDataHash",
+  13: "collateral",
+  14: "requiredSigners",
+  15: "networkId",
+  16: "collateralReturn",
+  17: "totalCollateral",
+  18: "referenceInputs",
+  19: "votes",
+  20: "proposals",
+  21: "currentTreasuryValue",
+  22: "donation",
+};
+
+interface PathEntry {
+  path: string;
+  node: CborNode;
+  /** Names of the map's integer keys, for the body and witness set */
+  keyNames?: Record<number, string>;
+}
+
+interface Line {
+  /** Byte offset of the item the line starts; null for closing brackets of definite-length items */
+  offset: number | null;
+  depth: number;
+  text: string;
+}
+
+const joinPath = (path: string, segment: string) => (path && !segment.startsWith("[") ? `${path}.${segment}` : path + segment);
+const plural = (count: number, noun: string, nouns: string) => `${count} ${count === 1 ? noun : nouns}`;
+
+/**
+ * Child items with their paths: tags are transparent, array items are
+ * indexed, map values are named by their key and map keys live under .keys[i]
+ */
+function children(bytes: Uint8Array, entry: PathEntry): PathEntry[] {
+  const { path, node, keyNames } = entry;
+  switch (node.type) {
+    case "tag":
+      return [{ path, node: node.item, keyNames }];
+    case "array": {
+      if (path !== "") return node.items.map((item, i) => ({ path: `${path}[${i}]`, node: item }));
+      // The transaction itself; Alonzo onwards has is_valid before the auxiliary data
+      const names =
+        node.items.length === 4 ? ["body", "witnessSet", "isValid", "auxiliaryData"] : ["body", "witnessSet", "auxiliaryData"];
+      return node.items.map((item, i) => ({
+        path: names[i] ?? `[${i}]`,
+        node: item,
+        keyNames: i === 0 ? BODY_KEYS : i === 1 ? WITNESS_SET_KEYS : undefined,
+      }));
+    }
+    case "map":
+      return node.entries.flatMap(([key, value], i) => {
+        const name = key.type === "uint" ? keyNames?.[Number(key.value)] : undefined;
+        return [
+          { path: `${path}.keys[${i}]`, node: key },
+          { path: joinPath(path, name ?? `[${inlineDiagnostic(bytes, key)}]`), node: value },
+        ];
+      });
+    default:
+      return [];
+  }
+}
+
+function headerLength(node: CborNode): number {
+  switch (node.type) {
+    case "bytes":
+      return node.indefinite ? 1 : node.end - node.offset - node.value.length;
+    case "text":
+      return node.indefinite ? 1 : node.end - node.offset - Buffer.byteLength(node.value);
+    case "array":
+      return node.indefinite ? 1 : (node.items[0]?.offset ?? node.end) - node.offset;
+    case "map":
+      return node.indefinite ? 1 : (node.entries[0]?.[0].offset ?? node.end) - node.offset;
+    case "tag":
+      return node.item.offset - node.offset;
+    default:
+      return node.end - node.offset;
+  }
+}
+
+function headerArgument(node: CborNode): bigint | null {
+  switch (node.type) {
+    case "uint":
+      return node.value;
+    case "tag":
+      return node.tag;
+    case "nint":
+      return -1n - node.value;
+    case "bytes":
+      return node.indefinite ? null : BigInt(node.value.length);
+    case "text":
+      return node.indefinite ? null : BigInt(Buffer.byteLength(node.value));
+    case "array":
+      return node.indefinite ? null : BigInt(node.items.length);
+    case "map":
+      return node.indefinite ? null : BigInt(node.entries.length);
+    default:
+      return null;
+  }
+}
+
+/**
+ * RFC 8610 encoding indicator (_0 to _3: a 1 to 8 byte argument) for items
+ * whose header is longer than the shortest encoding of its argument
+ */
+function encodingIndicator(node: CborNode): string {
+  const argument = headerArgument(node);
+  if (argument === null) return "";
+  const shortest = argument < 24n ? 1 : argument < 0x100n ? 2 : argument < 0x10000n ? 3 : argument < 0x100000000n ? 5 : 9;
+  const length = headerLength(node);
+  return length > shortest ? `_${Math.log2(length - 1)}` : "";
+}
+
+/** Chunks of an indefinite-length string, which the reader concatenates */
+function stringChunks(bytes: Uint8Array, node: CborNode): CborNode[] {
+  const chunks: CborNode[] = [];
+  for (let pos = node.offset + 1; bytes[pos] !== 0xff; pos = chunks[chunks.length - 1].end) {
+    chunks.push(decodeCborAt(bytes, pos));
+  }
+  return chunks;
+}
+
+function scalarDiagnostic(bytes: Uint8Array, node: CborNode): string {
+  const indicator = encodingIndicator(node);
+  switch (node.type) {
+    case "uint":
+    case "nint":
+      return `${node.value}${indicator}`;
+    case "bytes":
+    case "text":
+      if (node.indefinite) {
+        return `(_ ${stringChunks(bytes, node).map((chunk) => scalarDiagnostic(bytes, chunk)).join(", ")})`;
+      }
+      return node.type === "bytes"
+        ? `h'${Buffer.from(node.value).toString("hex")}'${indicator}`
+        : `${JSON.stringify(node.value)}${indicator}`;
+    case "simple":
+      return typeof node.value === "number" ? `simple(${node.value})` : String(node.value);
+    case "float":
+      return Number.isInteger(node.value) ? node.value.toFixed(1) : String(node.value);
+    default:
+      throw new Error(`Not a scalar CBOR item at byte ${node.offset}`);
+  }
+}
+
+function diagnosticLines(bytes: Uint8Array, node: CborNode, depth: number): Line[] {
+  switch (node.type) {
+    case "tag": {
+      const lines = diagnosticLines(bytes, node.item, depth);
+      lines[0] = { ...lines[0], offset: node.offset, text: `${node.tag}${encodingIndicator(node)}(${lines[0].text}` };
+      lines[lines.length - 1].text += ")";
+      return lines;
+    }
+    case "array":
+    case "map": {
+      const [open, close] = node.type === "array" ? ["[", "]"] : ["{", "}"];
+      const prefix = open + (node.indefinite ? "_" : encodingIndicator(node));
+      const items =
+        node.type === "array"
+          ? node.items.map((item) => diagnosticLines(bytes, item, depth + 1))
+          : node.entries.map(([key, value]) => {
+              const lines = diagnosticLines(bytes, value, depth + 1);
+              lines[0] = { ...lines[0], offset: key.offset, text: `${inlineDiagnostic(bytes, key)}: ${lines[0].text}` };
+              return lines;
+            });
+      if (items.length === 0) {
+        return [{ offset: node.offset, depth, text: `${prefix}${prefix.length > 1 ? " " : ""}${close}` }];
+      }
+      items.slice(0, -1).forEach((lines) => (lines[lines.length - 1].text += ","));
+      return [
+        { offset: node.offset, depth, text: prefix },
+        ...items.flat(),
+        { offset: node.indefinite ? node.end - 1 : null, depth, text: close },
+      ];
+    }
+    default:
+      return [{ offset: node.offset, depth, text: scalarDiagnostic(bytes, node) }];
+  }
+}
+
+/** Diagnostic notation on one line, for map keys and paths */
+function inlineDiagnostic(bytes: Uint8Array, node: CborNode): string {
+  return diagnosticLines(bytes, node, 0)
+    .map((line) => line.text)
+    .join(" ");
+}
+
+/**
+ * Render a CBOR item in RFC 8949 diagnostic notation, one item per line
+ * prefixed with its byte offset. Indefinite lengths (`[_`, `{_`, `(_`),
+ * tags and non-shortest headers (`_0` to `_3`) are shown as encoded.
+ */
+export function formatDiagnostic(bytes: Uint8Array, node: CborNode): string {
+  const width = String(node.end).length;
+  return diagnosticLines(bytes, node, 0)
+    .map((line) => {
+      const offset = line.offset === null ? "" : String(line.offset);
+      return `${offset.padStart(width)}  ${"  ".repeat(line.depth)}${line.text}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Find an item of a transaction by path: "body", "witnessSet.redeemers",
+ * "body.outputs[0]", "auxiliaryData"; body and witness set keys go by name
+ */
+export function findTransactionSection(bytes: Uint8Array, tx: CborNode, path: string): CborNode {
+  const stack: PathEntry[] = [{ path: "", node: tx }];
+  while (stack.length > 0) {
+    const entry = stack.pop()!;
+    if (entry.path === path) return entry.node;
+    // Only descend into items the path goes through
+    stack.push(
+      ...children(bytes, entry)
+        .filter((child) => path === child.path || path.startsWith(child.path + ".") || path.startsWith(child.path + "["))
+        .reverse(),
+    );
+  }
+  throw new Error(`Unknown section "${path}"; expected e.g. body, witnessSet.redeemers or body.outputs[0]`);
+}
+
+/**
+ * Diagnostic notation of CBOR hex, or of one section when it is a transaction
+ */
+export function cborDiagnostic(hex: string, section?: string): string {
+  const bytes = Buffer.from(hex, "hex");
+  const node = decodeCbor(bytes);
+  return formatDiagnostic(bytes, section ? findTransactionSection(bytes, node, section) : node);
+}
+
+function describeTag(tag: bigint): string {
+  if (tag === 258n) return "tag 258 (set)";
+  if (tag >= 121n && tag <= 127n) return `tag ${tag} (constructor ${tag - 121n})`;
+  if (tag >= 1280n && tag <= 1400n) return `tag ${tag} (constructor ${tag - 1280n + 7n})`;
+  if (tag === 102n) return "tag 102 (constructor)";
+  return `tag ${tag}`;
+}
+
+function describeStructure(bytes: Uint8Array, node: CborNode): string {
+  const indefinite = "indefinite" in node && node.indefinite ? "indefinite-length " : "";
+  const argument = headerLength(node) - 1;
+  const indicator = encodingIndicator(node) ? ` (${argument}-byte argument, not the shortest encoding)` : "";
+  switch (node.type) {
+    case "uint":
+    case "nint":
+      return `integer ${node.value}${indicator}`;
+    case "bytes":
+      return `${indefinite}byte string of ${plural(node.value.length, "byte", "bytes")}${indicator}`;
+    case "text":
+      return `${indefinite}text string of ${plural(Buffer.byteLength(node.value), "byte", "bytes")}${indicator}`;
+    case "array":
+      return `${indefinite}array of ${plural(node.items.length, "item", "items")}${indicator}`;
+    case "map":
+      return `${indefinite}map of ${plural(node.entries.length, "entry", "entries")}${indicator}`;
+    case "tag":
+      return describeTag(node.tag) + indicator;
+    default:
+      return `${node.type} ${scalarDiagnostic(bytes, node)}`;
+  }
+}
+
+/** The innermost item containing a byte, with its path */
+function locate(bytes: Uint8Array, root: CborNode, offset: number): EncodingDivergence {
+  let entry: PathEntry = { path: "", node: root };
+  for (;;) {
+    const child = children(bytes, entry).find(({ node }) => node.offset <= offset && offset < node.end);
+    if (!child) break;
+    entry = child;
+  }
+  return {
+    path: entry.path || "transaction",
+    structure: describeStructure(bytes, entry.node),
+    byte: bytes[offset].toString(16).padStart(2, "0"),
+  };
+}
+
+/**
+ * Find the first byte at which two transactions are encoded differently and
+ * the CBOR item it belongs to in each. Transactions that decode to the same
+ * values can still differ here, e.g. in definite vs indefinite lengths, map
+ * key order, tag 258 sets or redeemers as a map vs an array.
+ */
+export function compareEncodings(tx1Hex: string, tx2Hex: string): EncodingDifference | null {
+  const bytes1 = Buffer.from(tx1Hex, "hex");
+  const bytes2 = Buffer.from(tx2Hex, "hex");
+  let offset = 0;
+  while (offset < bytes1.length && offset < bytes2.length && bytes1[offset] === bytes2[offset]) offset++;
+  if (offset === bytes1.length && offset === bytes2.length) return null;
+
+  // A CBOR item is never a prefix of another, so both have a byte here
+  return {
+    offset,
+    tx1: locate(bytes1, decodeCbor(bytes1), offset),
+    tx2: locate(bytes2, decodeCbor(bytes2), offset),
+  };
+}
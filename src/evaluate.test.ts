@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { Language, TxBuilderConstants } from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { evaluateTransaction } from "./evaluate.js";
+import { parseUtxos } from "./utxo.js";
+import { FAILING_PLUTUS_TX_HEX, PLUTUS_TX_HEX } from "./test-fixtures.js";
+import type { ProtocolParameters } from "./types.js";
+
+const SCRIPT_REF = `${"aa".repeat(32)}#0`;
+const COLLATERAL = {
+  ["bb".repeat(32) + "#0"]: "82581d60c8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca35854281a004c4b40",
+};
+
+// Script outputs holding 10 ADA and inline datum 42
+const ALWAYS_SUCCEEDS_UTXOS = parseUtxos({
+  [SCRIPT_REF]: "a300581d703a888d65f16790950a72daee1f63aa05add6d268434107cfa5b67712011a00989680028201d81842182a",
+  ...COLLATERAL,
+});
+const FAILING_UTXOS = parseUtxos({
+  [SCRIPT_REF]: "a300581d7016730def13f05ad6fada9930af189b8fcf7b4dee7a3b223124ea8287011a00989680028201d81842182a",
+  ...COLLATERAL,
+});
+
+const v2 = TxBuilderConstants.plutus_conway_cost_models().get(Language.new_plutus_v2())!;
+const PARAMS: ProtocolParameters = {
+  costModels: { PlutusV2: Array.from({ length: v2.len() }, (_, i) => Number(v2.get(i).to_str())) },
+  maxTxExMem: 14000000,
+  maxTxExSteps: 10000000000,
+};
+
+describe("evaluateTransaction", () => {
+  it("reports the execution units each redeemer needs", () => {
+    const result = evaluateTransaction(PLUTUS_TX_HEX, ALWAYS_SUCCEEDS_UTXOS, PARAMS);
+
+    expect(result.success).toBe(true);
+    expect(result.error).toBeNull();
+    expect(result.redeemers).toEqual([
+      {
+        purpose: "spend",
+        index: "0",
+        target: { purpose: "spend", ref: SCRIPT_REF },
+        declared: { mem: "1000000", steps: "400000000" },
+        required: { mem: "1100", steps: "160100" },
+        delta: { mem: "998900", steps: "399839900" },
+        logs: [],
+        error: null,
+      },
+    ]);
+  });
+
+  it("attributes a script failure and its traces to the redeemer", () => {
+    const result = evaluateTransaction(FAILING_PLUTUS_TX_HEX, FAILING_UTXOS, PARAMS);
+
+    expect(result.success).toBe(false);
+    expect(result.redeemers[0]).toMatchObject({
+      required: null,
+      logs: ["boom"],
+      error: "the validator crashed / exited prematurely",
+    });
+  });
+
+  it("requires the UTxOs being spent and the execution limits", () => {
+    expect(() => evaluateTransaction(PLUTUS_TX_HEX, [], PARAMS)).toThrow("UTxO set is missing inputs");
+    expect(() => evaluateTransaction(PLUTUS_TX_HEX, ALWAYS_SUCCEEDS_UTXOS, { costModels: {} })).toThrow("maxTxExMem");
+  });
+});
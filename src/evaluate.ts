@@ -0,0 +1,132 @@
+import { Transaction, TransactionHash, TransactionInput } from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { eval_phase_two_raw } from "@lucid-evolution/uplc";
+import { decodeCbor, encodeCborHeader, encodeCborInt } from "./cbor.js";
+import { REDEEMER_PURPOSES, decodeTransaction, toArray } from "./decoder.js";
+import { MAINNET_SLOT_CONFIG } from "./time.js";
+import type {
+  DecodedUtxo,
+  ExUnitsBudget,
+  PlutusLanguage,
+  ProtocolParameters,
+  RedeemerEvaluation,
+  RedeemerPurpose,
+  SlotConfig,
+  TransactionEvaluation,
+} from "./types.js";
+
+/** Cost model keys in the ledger's CBOR encoding */
+const LANGUAGE_IDS: Record<PlutusLanguage, number> = { PlutusV1: 0, PlutusV2: 1, PlutusV3: 2 };
+
+/** Evaluator tags in failure messages ("Spend[0] the validator crashed ...") */
+const FAILURE_LINE = /^\s*(Spend|Mint|Cert|Reward|Vote|Propose)\[(\d+)\]\s+(.*)$/m;
+const TRACE_LINE = /^\s*Trace\s(.*)$/gm;
+
+function encodeCostModels(params: ProtocolParameters): Uint8Array {
+  const models = (Object.keys(LANGUAGE_IDS) as PlutusLanguage[]).filter((language) => params.costModels[language]);
+  if (models.length === 0) {
+    throw new Error("Protocol parameters have no Plutus cost models");
+  }
+  const hex =
+    encodeCborHeader(5, models.length) +
+    models
+      .map((language) => {
+        const model = params.costModels[language]!;
+        return encodeCborInt(LANGUAGE_IDS[language]) + encodeCborHeader(4, model.length) + model.map(encodeCborInt).join("");
+      })
+      .join("");
+  return Buffer.from(hex, "hex");
+}
+
+function subtract(declared: ExUnitsBudget, required: ExUnitsBudget): ExUnitsBudget {
+  return {
+    mem: (BigInt(declared.mem) - BigInt(required.mem)).toString(),
+    steps: (BigInt(declared.steps) - BigInt(required.steps)).toString(),
+  };
+}
+
+/**
+ * Run every Plutus script of a transaction locally with the UPLC evaluator,
+ * against the UTxOs it spends and references, and compare the execution
+ * units each redeemer needs with those it declares.
+ *
+ * The evaluator stops at the first failing script: its redeemer carries the
+ * error and trace logs, and redeemers after it are not evaluated. Scripts
+ * that succeed get no logs, as eval_phase_two_raw returns only their budgets.
+ */
+export function evaluateTransaction(
+  txHex: string,
+  utxos: DecodedUtxo[],
+  params: ProtocolParameters,
+  options: { slotConfig?: SlotConfig } = {},
+): TransactionEvaluation {
+  if (params.maxTxExMem === undefined || params.maxTxExSteps === undefined) {
+    throw new Error("Protocol parameters are missing the transaction execution unit limits (maxTxExMem, maxTxExSteps)");
+  }
+  const slotConfig = options.slotConfig ?? MAINNET_SLOT_CONFIG;
+
+  const tx = Transaction.from_hex(txHex);
+  const decoded = decodeTransaction(txHex);
+  const resolved = new Map(utxos.map((utxo) => [`${utxo.txHash}#${utxo.index}`, utxo]));
+  const needed = [...decoded.inputs, ...decoded.referenceInputs].map((i) => `${i.txHash}#${i.index}`);
+  const missing = needed.filter((ref) => !resolved.has(ref));
+  if (missing.length > 0) {
+    throw new Error(`UTxO set is missing inputs: ${missing.join(", ")}`);
+  }
+
+  const purposes = toArray(tx.witness_set().redeemers()).map((r) => REDEEMER_PURPOSES[r.tag().kind()]);
+  const redeemers: RedeemerEvaluation[] = (decoded.witnessSet.redeemers ?? []).map((redeemer, i) => ({
+    purpose: purposes[i],
+    index: redeemer.index,
+    target: redeemer.target ?? null,
+    declared: redeemer.exUnits,
+    required: null,
+    delta: null,
+    logs: [],
+    error: null,
+  }));
+  const find = (purpose: RedeemerPurpose, index: string) =>
+    redeemers.find((r) => r.purpose === purpose && r.index === index);
+
+  let results: Uint8Array[];
+  try {
+    results = eval_phase_two_raw(
+      Buffer.from(txHex, "hex"),
+      utxos.map((utxo) => TransactionInput.new(TransactionHash.from_hex(utxo.txHash), utxo.index).to_bytes()),
+      utxos.map((utxo) => Buffer.from(utxo.cbor, "hex")),
+      encodeCostModels(params),
+      BigInt(params.maxTxExMem),
+      BigInt(params.maxTxExSteps),
+      BigInt(slotConfig.zeroTime),
+      BigInt(slotConfig.zeroSlot),
+      slotConfig.slotLength,
+    );
+  } catch (error) {
+    const message = String(error);
+    const failure = message.match(FAILURE_LINE);
+    const failed = failure && find(failure[1].toLowerCase() as RedeemerPurpose, failure[2]);
+    if (!failed) {
+      return { success: false, redeemers, error: message };
+    }
+    failed.error = failure[3].trim();
+    failed.logs = [...message.matchAll(TRACE_LINE)].map((m) => m[1]);
+    return { success: false, redeemers, error: null };
+  }
+
+  // Each result is a redeemer [tag, index, data, [mem, steps]] with the units it used
+  for (const bytes of results) {
+    const node = decodeCbor(bytes);
+    if (node.type !== "array" || node.items.length !== 4) continue;
+    const [tag, index, , exUnits] = node.items;
+    if (tag.type !== "uint" || index.type !== "uint" || exUnits.type !== "array") continue;
+    const [mem, steps] = exUnits.items;
+    if (mem.type !== "uint" || steps.type !== "uint") continue;
+
+    const redeemer = find(REDEEMER_PURPOSES[Number(tag.value) as keyof typeof REDEEMER_PURPOSES], index.value.toString());
+    if (!redeemer) continue;
+    redeemer.required = { mem: mem.value.toString(), steps: steps.value.toString() };
+    redeemer.delta = subtract(redeemer.declared, redeemer.required);
+  }
+
+  const success = redeemers.every((r) => r.delta && !r.delta.mem.startsWith("-") && !r.delta.steps.startsWith("-"));
+  return { success, redeemers, error: null };
+}
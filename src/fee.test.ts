@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { analyzeFee, referenceScriptFee } from "./fee.js";
+import { parseUtxos } from "./utxo.js";
+import { PLUTUS_TX_HEX, SAMPLE_TX_HEX } from "./test-fixtures.js";
+import type { ProtocolParameters } from "./types.js";
+
+const PARAMS: ProtocolParameters = {
+  costModels: {},
+  minFeeA: 44,
+  minFeeB: 155381,
+  priceMem: 0.0577,
+  priceSteps: 0.0000721,
+  minFeeRefScriptCostPerByte: 15,
+};
+
+describe("referenceScriptFee", () => {
+  it("prices every 25 KiB tier at 1.2x the previous one", () => {
+    expect(referenceScriptFee(100, 15)).toBe(1500);
+    expect(referenceScriptFee(25_600 * 2 + 100, 15)).toBe(25_600 * 15 + 25_600 * 18 + 2160);
+  });
+});
+
+describe("analyzeFee", () => {
+  it("breaks the transaction down by size", () => {
+    const { size } = analyzeFee(SAMPLE_TX_HEX);
+
+    expect(size).toEqual({
+      total: 991,
+      body: 527,
+      witnessSet: 435,
+      witnessSetSections: { plutusData: 434 },
+      auxiliaryData: 27,
+      referenceScripts: null,
+    });
+  });
+
+  it("reports overpayment against the minimum fee", () => {
+    const analysis = analyzeFee(SAMPLE_TX_HEX, PARAMS);
+
+    expect(analysis.minFee).toEqual({ linear: 198985, scripts: 0, referenceScripts: 0, total: 198985 });
+    expect(analysis.difference).toBe(223825 - 198985);
+  });
+
+  it("includes execution unit prices and reports underpayment", () => {
+    const utxos = parseUtxos({
+      ["aa".repeat(32) + "#0"]:
+        "a300581d703a888d65f16790950a72daee1f63aa05add6d268434107cfa5b67712011a00989680028201d81842182a",
+    });
+    const analysis = analyzeFee(PLUTUS_TX_HEX, PARAMS, utxos);
+
+    expect(analysis.size.witnessSetSections).toEqual({ plutusV2Scripts: 12, redeemers: 19 });
+    expect(analysis.size.referenceScripts).toBe(0);
+    // 0.0577 * 1000000 + 0.0000721 * 400000000 = 86540
+    expect(analysis.minFee).toEqual({ linear: 163829, scripts: 86540, referenceScripts: 0, total: 250369 });
+    expect(analysis.difference).toBe(-50369);
+  });
+
+  it("explains why the minimum fee is unavailable", () => {
+    expect(analyzeFee(SAMPLE_TX_HEX).unavailable).toBe("no protocol parameters");
+    expect(analyzeFee(PLUTUS_TX_HEX, { costModels: {}, minFeeA: 44, minFeeB: 155381 }).unavailable).toMatch(
+      /execution unit prices/,
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { Transaction } from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { decodeCbor, type CborNode } from "./cbor.js";
+import { decodeInputs, decodeWitnessSet } from "./decoder.js";
+import type {
+  DecodedRedeemer,
+  DecodedUtxo,
+  FeeAnalysis,
+  MinFeeBreakdown,
+  ProtocolParameters,
+  SizeBreakdown,
+  WitnessSetSection,
+} from "./types.js";
+
+/** Conway reference-script pricing: every 25 KiB tier costs 1.2x the previous one */
+const REF_SCRIPT_TIER_SIZE = 25_600;
+const REF_SCRIPT_TIER_MULTIPLIER = 1.2;
+
+/** Witness set map keys */
+export const WITNESS_SET_KEYS: Record<number, WitnessSetSection> = {
+  0: "vkeys",
+  1: "nativeScripts",
+  2: "bootstraps",
+  3: "plutusV1Scripts",
+  4: "plutusData",
+  5: "redeemers",
+  6: "plutusV2Scripts",
+  7: "plutusV3Scripts",
+};
+
+const spanSize = (node: CborNode) => node.end - node.offset;
+
+/**
+ * Total size of the scripts carried by the spent and reference inputs, or
+ * null when any of them is missing from the UTxO set
+ */
+function referenceScriptSize(tx: Transaction, utxos: DecodedUtxo[]): number | null {
+  const resolved = new Map(utxos.map((utxo) => [`${utxo.txHash}#${utxo.index}`, utxo]));
+  const inputs = [...decodeInputs(tx.body().inputs()), ...decodeInputs(tx.body().reference_inputs())];
+  const spent = inputs.map((input) => resolved.get(`${input.txHash}#${input.index}`));
+  return spent.every(Boolean) ? spent.reduce((sum, utxo) => sum + (utxo!.referenceScript?.size ?? 0), 0) : null;
+}
+
+/**
+ * Byte sizes of the body, each witness set section and the auxiliary data
+ */
+function sizeBreakdown(txHex: string): Omit<SizeBreakdown, "referenceScripts"> {
+  const tx = decodeCbor(Buffer.from(txHex, "hex"));
+  if (tx.type !== "array" || tx.items.length < 3) {
+    throw new Error("Transaction CBOR is not a [body, witness set, ...] array");
+  }
+  const [body, witnessSet] = tx.items;
+  // Alonzo onwards: [body, witnesses, isValid, auxiliaryData]; Mary: [body, witnesses, auxiliaryData]
+  const auxiliaryData = tx.items[tx.items.length === 4 ? 3 : 2];
+
+  const witnessSetSections: SizeBreakdown["witnessSetSections"] = {};
+  if (witnessSet.type === "map") {
+    for (const [key, value] of witnessSet.entries) {
+      const section = key.type === "uint" ? WITNESS_SET_KEYS[Number(key.value)] : undefined;
+      if (section) witnessSetSections[section] = value.end - key.offset;
+    }
+  }
+
+  return {
+    total: txHex.length / 2,
+    body: spanSize(body),
+    witnessSet: spanSize(witnessSet),
+    witnessSetSections,
+    auxiliaryData: auxiliaryData.type === "simple" && auxiliaryData.value === null ? 0 : spanSize(auxiliaryData),
+  };
+}
+
+/**
+ * Tiered reference-script fee for the total size of scripts referenced by a transaction
+ */
+export function referenceScriptFee(totalSize: number, basePricePerByte: number): number {
+  let fee = 0;
+  let price = basePricePerByte;
+  let remaining = totalSize;
+  while (remaining >= REF_SCRIPT_TIER_SIZE) {
+    fee += REF_SCRIPT_TIER_SIZE * price;
+    price *= REF_SCRIPT_TIER_MULTIPLIER;
+    remaining -= REF_SCRIPT_TIER_SIZE;
+  }
+  return Math.floor(fee + remaining * price);
+}
+
+/**
+ * Minimum fee for a transaction of the given size, redeemer budgets and
+ * reference script bytes: linear fee + execution units + reference scripts
+ */
+export function computeMinFee(
+  txSize: number,
+  redeemers: DecodedRedeemer[],
+  referenceScriptSize: number,
+  params: ProtocolParameters,
+): MinFeeBreakdown {
+  if (params.minFeeA === undefined || params.minFeeB === undefined) {
+    throw new Error("Protocol parameters are missing the linear fee coefficients (minFeeA, minFeeB)");
+  }
+
+  const mem = redeemers.reduce((sum, r) => sum + Number(r.exUnits.mem), 0);
+  const steps = redeemers.reduce((sum, r) => sum + Number(r.exUnits.steps), 0);
+  if (redeemers.length > 0 && (params.priceMem === undefined || params.priceSteps === undefined)) {
+    throw new Error("Protocol parameters are missing execution unit prices (priceMem, priceSteps)");
+  }
+  if (referenceScriptSize > 0 && params.minFeeRefScriptCostPerByte === undefined) {
+    throw new Error("Protocol parameters are missing the reference script price (minFeeRefScriptCostPerByte)");
+  }
+
+  const linear = params.minFeeA * txSize + params.minFeeB;
+  const scripts = redeemers.length > 0 ? Math.ceil(params.priceMem! * mem + params.priceSteps! * steps) : 0;
+  const referenceScripts =
+    referenceScriptSize > 0 ? referenceScriptFee(referenceScriptSize, params.minFeeRefScriptCostPerByte!) : 0;
+
+  return { linear, scripts, referenceScripts, total: linear + scripts + referenceScripts };
+}
+
+/**
+ * Break a transaction down by size and check its fee against the minimum fee.
+ * Without a UTxO set, reference scripts are left out of the minimum fee.
+ */
+export function analyzeFee(txHex: string, params?: ProtocolParameters, utxos?: DecodedUtxo[]): FeeAnalysis {
+  const tx = Transaction.from_hex(txHex);
+  const fee = tx.body().fee().to_str();
+  const size: SizeBreakdown = {
+    ...sizeBreakdown(txHex),
+    referenceScripts: utxos ? referenceScriptSize(tx, utxos) : null,
+  };
+  if (!params) {
+    return { fee, size, minFee: null, difference: null, unavailable: "no protocol parameters" };
+  }
+
+  try {
+    const redeemers = decodeWitnessSet(tx.witness_set().to_hex()).redeemers ?? [];
+    const minFee = computeMinFee(size.total, redeemers, size.referenceScripts ?? 0, params);
+    return { fee, size, minFee, difference: Number(fee) - minFee.total, unavailable: null };
+  } catch (error) {
+    return { fee, size, minFee: null, difference: null, unavailable: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -1,11 +1,108 @@
 // Public API exports
 export { decodeTransaction, decodeWitnessSet, decodePlutusData } from "./decoder.js";
-export { compareTransactions, compareWitnessSets } from "./compare.js";
+export { compareTransactions, compareWitnessSets, formatDifferences } from "./compare.js";
+export { compareDirectories, formatJUnitReport } from "./compare-dir.js";
+export { parseComparisonPolicy, applyComparisonPolicy } from "./policy.js";
+export { verifyScriptDataHash, encodeLanguageViews } from "./integrity.js";
+export { parseProtocolParameters, parseCostModels } from "./params.js";
+export {
+  parseUtxos,
+  createUtxoProvider,
+  fileUtxoProvider,
+  fetchUtxos,
+  resolveInputs,
+  resolveReferenceScripts,
+} from "./utxo.js";
+export { analyzeFee, computeMinFee, referenceScriptFee } from "./fee.js";
+export { addressBalances, checkTotalCollateral, validateTransaction } from "./validate.js";
+export { evaluateTransaction } from "./evaluate.js";
+export {
+  MAINNET_SLOT_CONFIG,
+  SLOT_CONFIGS,
+  slotToTime,
+  timeToSlot,
+  parseSlotConfig,
+  describeValidityInterval,
+} from "./time.js";
+export { verifySignatures } from "./signatures.js";
+export { assembleTransaction } from "./assemble.js";
+export { evaluateNativeScript, evaluateNativeScripts } from "./native-script.js";
+export { parseCborInput } from "./input.js";
+export { metadatumToJson, decodeAssetName } from "./metadata.js";
+export { decodeUplcProgram, formatUplcProgram, disassembleScript } from "./uplc.js";
+export { cborDiagnostic, compareEncodings } from "./diagnostic.js";
+export { buildScriptContext, buildScriptContexts } from "./script-context.js";
+export { parseBlueprint, decodeWithBlueprint, applyBlueprint } from "./blueprint.js";
 export type {
   DecodedDatum,
   DecodedRedeemer,
   DecodedWitnessSet,
   DecodedTransaction,
   DecodedInput,
+  DecodedOutput,
+  DecodedOutputDatum,
+  DecodedAddress,
+  DecodedCredential,
+  DecodedValue,
+  DecodedScriptRef,
+  DecodedUtxo,
+  UtxoProvider,
+  AddressBalance,
+  DecodedVkeyWitness,
+  DecodedMint,
+  DecodedMintAsset,
+  MintScriptSource,
+  DecodedAuxiliaryData,
+  DecodedNftMetadata,
+  DecodedCip68Metadata,
   ComparisonResult,
+  ComparisonPolicy,
+  SuppressedDifference,
+  PairComparison,
+  DifferenceCategory,
+  DirectoryComparison,
+  CompareOptions,
+  Difference,
+  DifferenceKind,
+  DifferenceSection,
+  DifferenceSeverity,
+  EncodingDifference,
+  EncodingDivergence,
+  ScriptContext,
+  PlutusLanguage,
+  CostModels,
+  ProtocolParameters,
+  ScriptDataComponent,
+  ScriptDataHashVerification,
+  MinFeeBreakdown,
+  FeeAnalysis,
+  SizeBreakdown,
+  WitnessSetSection,
+  ValidationRule,
+  ValidationViolation,
+  ValidationReport,
+  CollateralCheck,
+  VkeyWitnessCheck,
+  DecodedNativeScript,
+  DecodedNativeScriptWitness,
+  DecodedPlutusScript,
+  UplcProgram,
+  UplcTerm,
+  NativeScriptContext,
+  NativeScriptEvaluation,
+  NativeScriptCheck,
+  SignatureVerification,
+  AssembledTransaction,
+  Blueprint,
+  BlueprintSchema,
+  BlueprintValidator,
+  SchemaDecoding,
+  SchemaMismatch,
+  SlotConfig,
+  NetworkName,
+  SlotTime,
+  ValidityInterval,
+  ExUnitsBudget,
+  RedeemerEvaluation,
+  TransactionEvaluation,
 } from "./types.js";
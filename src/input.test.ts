@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { parseCborInput } from "./input.js";
+
+const HEX = "84a400d9010281825820";
+
+describe("parseCborInput", () => {
+  it("accepts raw and 0x-prefixed hex", () => {
+    expect(parseCborInput(HEX)).toBe(HEX);
+    expect(parseCborInput(`  0x${HEX.toUpperCase()}\n`)).toBe(HEX);
+  });
+
+  it("accepts base64", () => {
+    expect(parseCborInput(Buffer.from(HEX, "hex").toString("base64"))).toBe(HEX);
+  });
+
+  it("unwraps cardano-cli text envelopes", () => {
+    const envelope = JSON.stringify({ type: "Tx ConwayEra", description: "Ledger Cddl Format", cborHex: HEX }, null, 4);
+    expect(parseCborInput(Buffer.from(envelope))).toBe(HEX);
+  });
+
+  it("accepts a JSON hex string from a CIP-30 response", () => {
+    expect(parseCborInput('"a10081825820"')).toBe("a10081825820");
+  });
+
+  it("reads binary CBOR as bytes", () => {
+    expect(parseCborInput(Buffer.from(HEX, "hex"))).toBe(HEX);
+  });
+
+  it("rejects unrecognized input", () => {
+    expect(() => parseCborInput("not a transaction!")).toThrow("Unrecognized input");
+    expect(() => parseCborInput('{"foo": 1}')).toThrow("TextEnvelope");
+    expect(() => parseCborInput(new Uint8Array())).toThrow("empty");
+  });
+});
@@ -0,0 +1,80 @@
+import { existsSync, readFileSync } from "fs";
+
+/** cardano-cli TextEnvelope, e.g. { "type": "Tx ConwayEra", "description": "", "cborHex": "84a4..." } */
+interface TextEnvelope {
+  type?: string;
+  cborHex: string;
+}
+
+const HEX = /^([0-9a-f]{2})+$/i;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Raw binary CBOR contains bytes outside printable ASCII; text formats never do
+ */
+function isBinary(bytes: Uint8Array): boolean {
+  return bytes.some((b) => (b < 0x20 && b !== 0x09 && b !== 0x0a && b !== 0x0d) || b > 0x7e);
+}
+
+function isTextEnvelope(json: unknown): json is TextEnvelope {
+  return !!json && typeof json === "object" && typeof (json as TextEnvelope).cborHex === "string";
+}
+
+/**
+ * Normalize a textual CBOR encoding to lowercase hex. Accepts raw hex,
+ * 0x-prefixed hex, base64, cardano-cli TextEnvelope JSON and a JSON string
+ * (as logged from a CIP-30 `signTx` or `getUtxos` response).
+ */
+function parseText(text: string): string {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith("{") || trimmed.startsWith('"')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error("Input looks like JSON but could not be parsed");
+    }
+    if (typeof json === "string") return parseText(json);
+    if (isTextEnvelope(json)) return parseText(json.cborHex);
+    throw new Error('JSON input must be a TextEnvelope with a "cborHex" field or a hex string');
+  }
+
+  const hex = trimmed.replace(/^0x/i, "").replace(/\s+/g, "");
+  if (HEX.test(hex)) return hex.toLowerCase();
+
+  const base64 = trimmed.replace(/\s+/g, "");
+  if (BASE64.test(base64) && base64.length % 4 === 0) {
+    return Buffer.from(base64, "base64").toString("hex");
+  }
+
+  throw new Error("Unrecognized input: expected hex, base64, a TextEnvelope or a CBOR file");
+}
+
+/**
+ * Convert input bytes in any supported format (binary CBOR or one of the
+ * text encodings) to a CBOR hex string
+ */
+export function parseCborInput(content: Uint8Array | string): string {
+  if (typeof content === "string") return parseText(content);
+  if (content.length === 0) throw new Error("Input is empty");
+  return isBinary(content) ? Buffer.from(content).toString("hex") : parseText(Buffer.from(content).toString("utf-8"));
+}
+
+/**
+ * Read a CBOR argument as hex:
+ *   - "-" reads stdin
+ *   - An existing file path is read as binary CBOR or text
+ *   - Anything else is parsed as an inline value
+ */
+export function readInput(input: string): string {
+  if (input === "-") {
+    const content = readFileSync(0);
+    if (content.length === 0) throw new Error("No input on stdin");
+    return parseCborInput(content);
+  }
+  if (existsSync(input)) {
+    return parseCborInput(readFileSync(input));
+  }
+  return parseCborInput(input);
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { verifyScriptDataHash, encodeLanguageViews } from "./integrity.js";
+import { blake2b256Hex } from "./blake2b.js";
+import { SAMPLE_TX_HEX } from "./test-fixtures.js";
+import type { PlutusLanguage } from "./types.js";
+
+// The sample is a datum-only transaction whose hash covers the tag-258 datum set
+const DECLARED_HASH = "5e4edebba50f3bf7be0d7ff7e07619b63d4edea30be0de8f641e5561206ef921";
+
+describe("verifyScriptDataHash", () => {
+  it("matches the declared hash of a datum-only transaction", () => {
+    const result = verifyScriptDataHash(SAMPLE_TX_HEX, {});
+
+    expect(result.declared).toBe(DECLARED_HASH);
+    expect(result.computed).toBe(DECLARED_HASH);
+    expect(result.match).toBe(true);
+    expect(result.mismatch).toBeNull();
+    expect(result.datumsHex?.startsWith("d90102")).toBe(true);
+  });
+
+  it("attributes a mismatch to language views", () => {
+    const result = verifyScriptDataHash(SAMPLE_TX_HEX, { PlutusV2: [1, 2, 3] }, { languages: ["PlutusV2"] });
+
+    expect(result.match).toBe(false);
+    expect(result.mismatch).toBe("languageViews");
+  });
+
+  it("attributes a mismatch to the datum set encoding", () => {
+    const datums = verifyScriptDataHash(SAMPLE_TX_HEX, {}).datumsHex!;
+    const untaggedHash = blake2b256Hex("a0" + datums.slice(6) + "a0");
+    const result = verifyScriptDataHash(SAMPLE_TX_HEX.replace(DECLARED_HASH, untaggedHash), {});
+
+    expect(result.match).toBe(false);
+    expect(result.mismatch).toBe("datums");
+    expect(result.explanation).toContain("without the tag-258 set wrapper");
+  });
+
+  it("throws when a used language has no cost model", () => {
+    expect(() => verifyScriptDataHash(SAMPLE_TX_HEX, {}, { languages: ["PlutusV3"] })).toThrow(
+      "No PlutusV3 cost model",
+    );
+  });
+
+  it("throws on unknown language names", () => {
+    const languages = ["PlutusV2", "plutusv3"] as PlutusLanguage[];
+
+    expect(() => verifyScriptDataHash(SAMPLE_TX_HEX, {}, { languages })).toThrow(
+      'Unknown Plutus language "plutusv3", expected PlutusV1, PlutusV2, PlutusV3',
+    );
+  });
+});
+
+describe("encodeLanguageViews", () => {
+  it("encodes V1 views as wrapped byte strings after V2 and V3", () => {
+    const views = encodeLanguageViews({ PlutusV1: [1], PlutusV2: [2], PlutusV3: [-1] }, [
+      "PlutusV1",
+      "PlutusV2",
+      "PlutusV3",
+    ]);
+
+    expect(views).toBe("a3" + "01" + "8102" + "02" + "8120" + "4100" + "43" + "9f01ff");
+  });
+
+  it("encodes no languages as an empty map", () => {
+    expect(encodeLanguageViews({}, [])).toBe("a0");
+  });
+});
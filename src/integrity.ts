@@ -0,0 +1,210 @@
+import { blake2b256Hex } from "./blake2b.js";
+import { decodeCbor, encodeCborHeader, encodeCborInt, getMapEntry, rawHex, type CborNode } from "./cbor.js";
+import type {
+  CostModels,
+  PlutusLanguage,
+  ScriptDataComponent,
+  ScriptDataHashVerification,
+} from "./types.js";
+
+/** Language view keys sort canonically as 0x01 (V2), 0x02 (V3), 0x4100 (V1) */
+const LANGUAGE_VIEW_ORDER: PlutusLanguage[] = ["PlutusV2", "PlutusV3", "PlutusV1"];
+
+/** Witness set keys holding scripts of each language */
+const WITNESS_SCRIPT_KEYS: Record<PlutusLanguage, number> = { PlutusV1: 3, PlutusV2: 6, PlutusV3: 7 };
+
+/** Conway encodes an absent redeemer set as an empty map */
+const EMPTY_REDEEMERS = "a0";
+
+interface Candidate {
+  component: ScriptDataComponent;
+  explanation: string;
+  hash: () => string;
+}
+
+/**
+ * Unwrap a tag-258 set to its underlying array
+ */
+function setItems(node: CborNode | undefined): CborNode[] {
+  const inner = node?.type === "tag" && node.tag === 258n ? node.item : node;
+  return inner?.type === "array" ? inner.items : [];
+}
+
+function witnessLanguages(witnessSet: CborNode): PlutusLanguage[] {
+  return (Object.keys(WITNESS_SCRIPT_KEYS) as PlutusLanguage[]).filter(
+    (language) => setItems(getMapEntry(witnessSet, WITNESS_SCRIPT_KEYS[language])).length > 0,
+  );
+}
+
+/**
+ * Encode the language views of the given languages as the ledger does
+ */
+export function encodeLanguageViews(costModels: CostModels, languages: PlutusLanguage[]): string {
+  const views = LANGUAGE_VIEW_ORDER.filter((language) => languages.includes(language)).map((language) => {
+    const model = costModels[language];
+    if (!model) {
+      throw new Error(`No ${language} cost model in protocol parameters`);
+    }
+    const values = model.map(encodeCborInt).join("");
+    if (language === "PlutusV1") {
+      // V1 keeps the Alonzo quirk: key and value are both wrapped in byte strings
+      const value = "9f" + values + "ff";
+      return "4100" + encodeCborHeader(2, value.length / 2) + value;
+    }
+    return encodeCborInt(language === "PlutusV2" ? 1 : 2) + encodeCborHeader(4, model.length) + values;
+  });
+  return encodeCborHeader(5, views.length) + views.join("");
+}
+
+/**
+ * Re-encode redeemers in the other container format (array <-> map), keeping item bytes
+ */
+function alternateRedeemers(bytes: Uint8Array, node: CborNode): { hex: string; format: string } | null {
+  const raw = (n: CborNode) => rawHex(bytes, n);
+
+  if (node.type === "array" && node.items.every((r) => r.type === "array" && r.items.length === 4)) {
+    const entries = node.items.map((r) => {
+      const [tag, index, data, exUnits] = (r as Extract<CborNode, { type: "array" }>).items;
+      return "82" + raw(tag) + raw(index) + "82" + raw(data) + raw(exUnits);
+    });
+    return { hex: encodeCborHeader(5, entries.length) + entries.join(""), format: "map" };
+  }
+
+  if (node.type === "map") {
+    const items: string[] = [];
+    for (const [key, value] of node.entries) {
+      if (key.type !== "array" || value.type !== "array" || key.items.length !== 2 || value.items.length !== 2) {
+        return null;
+      }
+      items.push("84" + raw(key.items[0]) + raw(key.items[1]) + raw(value.items[0]) + raw(value.items[1]));
+    }
+    return { hex: encodeCborHeader(4, items.length) + items.join(""), format: "array" };
+  }
+
+  return null;
+}
+
+function subsets<T>(values: T[]): T[][] {
+  return values.reduce<T[][]>((acc, value) => [...acc, ...acc.map((s) => [...s, value])], [[]]);
+}
+
+function describeLanguages(languages: PlutusLanguage[]): string {
+  return languages.length > 0 ? languages.join(", ") : "no languages";
+}
+
+/**
+ * Recompute script_data_hash from the witness set and cost models, and
+ * explain which component accounts for a mismatch with the body.
+ *
+ * Hashes the redeemers and datums exactly as encoded in the transaction.
+ * Languages default to those of the witness-set scripts; pass them
+ * explicitly when scripts are supplied through reference inputs.
+ */
+export function verifyScriptDataHash(
+  txHex: string,
+  costModels: CostModels,
+  options: { languages?: PlutusLanguage[] } = {},
+): ScriptDataHashVerification {
+  const known = Object.keys(WITNESS_SCRIPT_KEYS) as PlutusLanguage[];
+  const unknown = options.languages?.find((language) => !known.includes(language));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown Plutus language "${unknown}", expected ${known.join(", ")}`);
+  }
+  const bytes = Buffer.from(txHex, "hex");
+  const tx = decodeCbor(bytes);
+  if (tx.type !== "array" || tx.items.length < 2) {
+    throw new Error("Not a transaction: expected a CBOR array of body and witness set");
+  }
+  const [body, witnessSet] = tx.items;
+
+  const declaredNode = getMapEntry(body, 11);
+  const declared = declaredNode?.type === "bytes" ? Buffer.from(declaredNode.value).toString("hex") : null;
+  const redeemersNode = getMapEntry(witnessSet, 5);
+  const datumsNode = getMapEntry(witnessSet, 4);
+  const redeemersHex = redeemersNode ? rawHex(bytes, redeemersNode) : null;
+  const datumsHex = datumsNode ? rawHex(bytes, datumsNode) : null;
+  const languages = options.languages ?? witnessLanguages(witnessSet);
+
+  const result = { declared, languages, redeemersHex, datumsHex };
+
+  if (!redeemersHex && !datumsHex) {
+    return {
+      ...result,
+      computed: null,
+      match: declared === null,
+      mismatch: declared === null ? null : "unknown",
+      explanation:
+        declared === null ? null : "Body declares a script data hash but the witness set has no redeemers or datums",
+    };
+  }
+
+  const hash = (redeemers: string | null, datums: string | null, langs: PlutusLanguage[]) =>
+    blake2b256Hex((redeemers ?? EMPTY_REDEEMERS) + (datums ?? "") + encodeLanguageViews(costModels, langs));
+
+  const computed = hash(redeemersHex, datumsHex, languages);
+  if (computed === declared) {
+    return { ...result, computed, match: true, mismatch: null, explanation: null };
+  }
+  if (declared === null) {
+    return {
+      ...result,
+      computed,
+      match: false,
+      mismatch: "unknown",
+      explanation: "Witness set has redeemers or datums but the body declares no script data hash",
+    };
+  }
+
+  const available = (Object.keys(costModels) as PlutusLanguage[]).filter((l) => costModels[l]);
+  const current = [...languages].sort().join();
+  const candidates: Candidate[] = subsets(available)
+    .filter((langs) => [...langs].sort().join() !== current)
+    .map((langs) => ({
+      component: "languageViews",
+      explanation: `Declared hash matches language views for ${describeLanguages(langs)}, not ${describeLanguages(languages)} (check reference scripts and cost models)`,
+      hash: () => hash(redeemersHex, datumsHex, langs),
+    }));
+
+  if (datumsNode) {
+    candidates.push({
+      component: "datums",
+      explanation: "Declared hash matches when the witness-set datums are left out",
+      hash: () => hash(redeemersHex, null, languages),
+    });
+    const tagged = datumsNode.type === "tag" && datumsNode.tag === 258n;
+    candidates.push({
+      component: "datums",
+      explanation: `Declared hash matches the datums encoded ${tagged ? "without" : "with"} the tag-258 set wrapper`,
+      hash: () =>
+        hash(redeemersHex, tagged ? rawHex(bytes, datumsNode.item) : "d90102" + datumsHex, languages),
+    });
+  }
+
+  if (redeemersNode) {
+    const alternate = alternateRedeemers(bytes, redeemersNode);
+    if (alternate) {
+      candidates.push({
+        component: "redeemers",
+        explanation: `Declared hash matches the redeemers encoded as a ${alternate.format}`,
+        hash: () => hash(alternate.hex, datumsHex, languages),
+      });
+    }
+  } else {
+    candidates.push({
+      component: "redeemers",
+      explanation: "Declared hash matches the pre-Conway empty redeemers encoding (empty array)",
+      hash: () => hash("80", datumsHex, languages),
+    });
+  }
+
+  const culprit = candidates.find((candidate) => candidate.hash() === declared);
+  return {
+    ...result,
+    computed,
+    match: false,
+    mismatch: culprit?.component ?? "unknown",
+    explanation:
+      culprit?.explanation ??
+      "No single change to redeemers, datums or language views reproduces the declared hash; compare the cost model values with those the builder used",
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { decodeCbor } from "./cbor.js";
+import { decodeAssetName, decodeAuxiliaryData, decodeCip68Metadata } from "./metadata.js";
+
+const POLICY = "aabb";
+
+function auxiliaryData(hex: string) {
+  const bytes = Buffer.from(hex, "hex");
+  return decodeAuxiliaryData(bytes, decodeCbor(bytes));
+}
+
+describe("decodeAuxiliaryData", () => {
+  it("decodes CIP-25 v2 metadata with byte string keys from Alonzo auxiliary data", () => {
+    // 259({0: {721: {h'aabb': {h'4e4654': {"name": "NFT"}}, "version": 2}}})
+    const decoded = auxiliaryData("d90103a100a11902d1a242aabba1434e4654a1646e616d65634e46546776657273696f6e02");
+
+    expect(decoded.metadata).toEqual({ 721: { "0xaabb": { "0x4e4654": { name: "NFT" } }, version: 2 } });
+    expect(decoded.nfts).toEqual([{ policyId: POLICY, assetName: "4e4654", metadata: { name: "NFT" } }]);
+  });
+
+  it("decodes CIP-25 v1 text keys and CIP-20 message lists from Shelley metadata", () => {
+    // {674: {"msg": ["hello"]}, 721: {"aabb": {"NFT": {"name": "NFT"}}}}
+    const decoded = auxiliaryData("a21902a2a1636d7367816568656c6c6f1902d1a16461616262a1634e4654a1646e616d65634e4654");
+
+    expect(decoded.messages).toEqual(["hello"]);
+    expect(decoded.nfts).toEqual([{ policyId: POLICY, assetName: "4e4654", metadata: { name: "NFT" } }]);
+  });
+});
+
+describe("decodeCip68Metadata", () => {
+  const value = { lovelace: "2000000", assets: { [POLICY]: { "000643b04e4654": "1" } } };
+
+  it("decodes the metadata datum of a reference token output", () => {
+    // 121([{"name": "NFT", "image": h'ff'}, 1, 0])
+    const datum = {
+      constructor: 0,
+      fields: [
+        {
+          map: [
+            { k: { bytes: "6e616d65" }, v: { bytes: "4e4654" } },
+            { k: { bytes: "696d616765" }, v: { bytes: "ff" } },
+          ],
+        },
+        { int: 1 },
+        { int: 0 },
+      ],
+    };
+
+    expect(decodeCip68Metadata(value, datum)).toEqual({
+      policyId: POLICY,
+      assetName: "000643b04e4654",
+      metadata: { name: "NFT", image: "0xff" },
+      version: 1,
+    });
+  });
+
+  it("ignores outputs without a reference token or metadata datum", () => {
+    expect(decodeCip68Metadata({ lovelace: "0", assets: {} }, { constructor: 0, fields: [] })).toBeUndefined();
+    expect(decodeCip68Metadata(value, { constructor: 1, fields: [] })).toBeUndefined();
+  });
+});
+
+describe("decodeAssetName", () => {
+  it("splits off CIP-67 labels with a valid checksum", () => {
+    expect(decodeAssetName("000643b04e4654")).toEqual({ label: 100, name: "NFT" });
+    expect(decodeAssetName("000de1404e4654")).toEqual({ label: 222, name: "NFT" });
+    expect(decodeAssetName("000de1504e4654")).toEqual({ label: null, name: null });
+  });
+
+  it("decodes unlabeled names as UTF-8 when printable", () => {
+    expect(decodeAssetName("576f6e6465724d696c6b303935")).toEqual({ label: null, name: "WonderMilk095" });
+    expect(decodeAssetName("ff00")).toEqual({ label: null, name: null });
+  });
+});
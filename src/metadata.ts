@@ -0,0 +1,164 @@
+import { blake2b256Hex } from "./blake2b.js";
+import { getMapEntry, rawHex, type CborNode } from "./cbor.js";
+import type { DecodedAuxiliaryData, DecodedCip68Metadata, DecodedNftMetadata, DecodedValue } from "./types.js";
+
+/** CIP-20 transaction messages */
+const MESSAGE_LABEL = "674";
+/** CIP-25 NFT metadata */
+const NFT_LABEL = "721";
+/** CIP-67 label (100) prefix of CIP-68 reference token names */
+const CIP68_REFERENCE_PREFIX = "000643b0";
+
+/** CRC-8 (polynomial 0x07) that CIP-67 uses to checksum labels */
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+/**
+ * Decode hex as UTF-8 text when it round-trips and has no control characters
+ */
+export function printableUtf8(hex: string): string | null {
+  const text = Buffer.from(hex, "hex").toString("utf-8");
+  const roundTrips = Buffer.from(text, "utf-8").toString("hex") === hex;
+  return roundTrips && !/\p{Cc}/u.test(text) ? text : null;
+}
+
+/**
+ * Split an asset name into its CIP-67 label (0 + 16-bit label + CRC-8 + 0)
+ * and the UTF-8 name that follows
+ */
+export function decodeAssetName(hex: string): { label: number | null; name: string | null } {
+  const prefix = hex.slice(0, 8);
+  const labelBytes = Buffer.from(prefix.slice(1, 5), "hex");
+  const isLabel =
+    prefix.length === 8 &&
+    /^0[0-9a-f]{6}0$/.test(prefix) &&
+    crc8(labelBytes) === parseInt(prefix.slice(5, 7), 16);
+  return isLabel
+    ? { label: labelBytes.readUInt16BE(0), name: printableUtf8(hex.slice(8)) }
+    : { label: null, name: printableUtf8(hex) };
+}
+
+function toNumber(value: bigint): number | string {
+  return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+}
+
+/**
+ * Convert a metadatum to JSON: byte strings become "0x..." hex, maps with
+ * text, integer or byte string keys become objects, other maps { k, v } lists
+ */
+export function metadatumToJson(node: CborNode): unknown {
+  switch (node.type) {
+    case "uint":
+    case "nint":
+      return toNumber(node.value);
+    case "text":
+      return node.value;
+    case "bytes":
+      return "0x" + Buffer.from(node.value).toString("hex");
+    case "array":
+      return node.items.map(metadatumToJson);
+    case "map": {
+      const entries = node.entries.map(([k, v]) => ({ k: metadatumToJson(k), v: metadatumToJson(v) }));
+      return entries.every((e) => typeof e.k === "string" || typeof e.k === "number")
+        ? Object.fromEntries(entries.map((e) => [String(e.k), e.v]))
+        : entries;
+    }
+    default:
+      throw new Error(`Invalid metadatum of type ${node.type} at byte ${node.offset}`);
+  }
+}
+
+/**
+ * Find the metadata map: Shelley auxiliary data is the map itself, Allegra
+ * wraps it in [metadata, scripts] and Alonzo onwards in tag 259 { 0: metadata }
+ */
+function metadataNode(auxiliaryData: CborNode): CborNode | undefined {
+  if (auxiliaryData.type === "map") return auxiliaryData;
+  if (auxiliaryData.type === "array") return auxiliaryData.items[0];
+  if (auxiliaryData.type === "tag" && auxiliaryData.tag === 259n) return getMapEntry(auxiliaryData.item, 0);
+  throw new Error(`Invalid auxiliary data at byte ${auxiliaryData.offset}`);
+}
+
+/** CIP-25 keys: v1 uses text policy ids and names, v2 byte strings */
+function keyHex(key: string, textAsUtf8: boolean): string {
+  if (key.startsWith("0x")) return key.slice(2);
+  return textAsUtf8 ? Buffer.from(key, "utf-8").toString("hex") : key;
+}
+
+function decodeMessages(value: unknown): string[] | undefined {
+  const msg = (value as { msg?: unknown } | undefined)?.msg;
+  // CIP-20 specifies a list of strings, but a single string is common
+  if (typeof msg === "string") return [msg];
+  return Array.isArray(msg) ? msg.map(String) : undefined;
+}
+
+function decodeNfts(value: unknown): DecodedNftMetadata[] | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  return Object.entries(value as Record<string, unknown>).flatMap(([policy, assets]) => {
+    if (policy === "version" || !assets || typeof assets !== "object" || Array.isArray(assets)) return [];
+    return Object.entries(assets as Record<string, unknown>).map(([name, metadata]) => ({
+      policyId: keyHex(policy, false),
+      assetName: keyHex(name, true),
+      metadata,
+    }));
+  });
+}
+
+/**
+ * Decode auxiliary data CBOR, hashing its exact bytes as the body's
+ * auxiliary data hash does
+ */
+export function decodeAuxiliaryData(bytes: Uint8Array, node: CborNode): DecodedAuxiliaryData {
+  const metadata = metadataNode(node);
+  const json = metadata ? (metadatumToJson(metadata) as Record<string, unknown>) : {};
+  const messages = decodeMessages(json[MESSAGE_LABEL]);
+  const nfts = decodeNfts(json[NFT_LABEL]);
+
+  return {
+    hash: blake2b256Hex(rawHex(bytes, node)),
+    metadata: json,
+    ...(messages && { messages }),
+    ...(nfts?.length && { nfts }),
+  };
+}
+
+/** Plutus data (DetailedSchema JSON) as plain JSON; printable byte strings become text */
+function plutusDataToJson(data: unknown): unknown {
+  const node = data as { int?: number; bytes?: string; list?: unknown[]; map?: { k: unknown; v: unknown }[] };
+  if (node.int !== undefined) return node.int;
+  if (node.bytes !== undefined) return printableUtf8(node.bytes) ?? "0x" + node.bytes;
+  if (node.list) return node.list.map(plutusDataToJson);
+  if (node.map) {
+    const entries = node.map.map(({ k, v }) => ({ k: plutusDataToJson(k), v: plutusDataToJson(v) }));
+    return entries.every((e) => typeof e.k === "string" || typeof e.k === "number")
+      ? Object.fromEntries(entries.map((e) => [String(e.k), e.v]))
+      : entries;
+  }
+  return data;
+}
+
+/**
+ * Decode the CIP-68 metadata datum (constructor 0 [metadata, version, extra])
+ * of an output holding a (100) reference token
+ */
+export function decodeCip68Metadata(value: DecodedValue, datumJson: unknown): DecodedCip68Metadata | undefined {
+  const referenceToken = Object.entries(value.assets)
+    .flatMap(([policyId, assets]) => Object.keys(assets).map((name) => ({ policyId, name })))
+    .find((asset) => asset.name.startsWith(CIP68_REFERENCE_PREFIX));
+  const datum = datumJson as { constructor?: number; fields?: { map?: unknown; int?: number }[] };
+  if (!referenceToken || datum.constructor !== 0 || !datum.fields?.[0]?.map || datum.fields[1]?.int === undefined) {
+    return undefined;
+  }
+  return {
+    policyId: referenceToken.policyId,
+    assetName: referenceToken.name,
+    metadata: plutusDataToJson(datum.fields[0]) as Record<string, unknown>,
+    version: datum.fields[1].int,
+  };
+}
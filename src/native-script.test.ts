@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  BigNum,
+  FixedTransaction,
+  NativeScript,
+  NativeScripts,
+  PrivateKey,
+  ScriptAll,
+  ScriptNOfK,
+  ScriptPubkey,
+  TimelockExpiry,
+  Transaction,
+  TransactionWitnessSet,
+} from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { decodeWitnessSet } from "./decoder.js";
+import { evaluateNativeScript, evaluateNativeScripts } from "./native-script.js";
+import { SAMPLE_TX_HEX } from "./test-fixtures.js";
+
+const alice = PrivateKey.from_normal_bytes(new Uint8Array(32).fill(1));
+const bob = PrivateKey.from_normal_bytes(new Uint8Array(32).fill(2));
+const carol = PrivateKey.from_normal_bytes(new Uint8Array(32).fill(3));
+const keyHash = (key: PrivateKey) => key.to_public().hash().to_hex();
+const sig = (key: PrivateKey) => NativeScript.new_script_pubkey(ScriptPubkey.new(key.to_public().hash()));
+
+function scripts(...items: NativeScript[]): NativeScripts {
+  const list = NativeScripts.new();
+  items.forEach((item) => list.add(item));
+  return list;
+}
+
+/** 2 of [alice, bob, all [carol, before slot 1000]] */
+const TREASURY = NativeScript.new_script_n_of_k(
+  ScriptNOfK.new(
+    2,
+    scripts(
+      sig(alice),
+      sig(bob),
+      NativeScript.new_script_all(
+        ScriptAll.new(
+          scripts(sig(carol), NativeScript.new_timelock_expiry(TimelockExpiry.new_timelockexpiry(BigNum.from_str("1000")))),
+        ),
+      ),
+    ),
+  ),
+);
+
+/** Sample body with the given TTL, signed by alice and carol */
+function treasuryTx(ttl: string): string {
+  const body = Transaction.from_hex(SAMPLE_TX_HEX).body();
+  body.set_ttl(BigNum.from_str(ttl));
+  const witnessSet = TransactionWitnessSet.new();
+  witnessSet.set_native_scripts(scripts(TREASURY));
+
+  const tx = FixedTransaction.new(body.to_bytes(), witnessSet.to_bytes(), true);
+  tx.sign_and_add_vkey_signature(alice);
+  tx.sign_and_add_vkey_signature(carol);
+  return tx.to_hex();
+}
+
+describe("decodeWitnessSet native scripts", () => {
+  it("decodes each script into its tree with its hash", () => {
+    const witnessSet = TransactionWitnessSet.new();
+    witnessSet.set_native_scripts(scripts(TREASURY));
+    const decoded = decodeWitnessSet(witnessSet.to_hex());
+
+    expect(decoded.nativeScriptCount).toBe(1);
+    expect(decoded.nativeScripts).toEqual([
+      {
+        hash: TREASURY.hash().to_hex(),
+        script: {
+          type: "atLeast",
+          required: 2,
+          scripts: [
+            { type: "sig", keyHash: keyHash(alice) },
+            { type: "sig", keyHash: keyHash(bob) },
+            {
+              type: "all",
+              scripts: [
+                { type: "sig", keyHash: keyHash(carol) },
+                { type: "before", slot: "1000" },
+              ],
+            },
+          ],
+        },
+      },
+    ]);
+  });
+});
+
+describe("evaluateNativeScripts", () => {
+  it("explains which branch fails", () => {
+    const [check] = evaluateNativeScripts(treasuryTx("2000"));
+
+    expect(check.satisfied).toBe(false);
+    expect(check.evaluation.reason).toBe("1 of 3 satisfied, 2 required");
+    expect(check.evaluation.children!.map((c) => [c.path, c.satisfied])).toEqual([
+      ["$[0]", true],
+      ["$[1]", false],
+      ["$[2]", false],
+    ]);
+    expect(check.evaluation.children![1].reason).toBe(`no valid signature from ${keyHash(bob)}`);
+    expect(check.evaluation.children![2].children![1]).toEqual({
+      path: "$[2][1]",
+      type: "before",
+      satisfied: false,
+      reason: "TTL 2000 is after slot 1000",
+    });
+  });
+
+  it("is satisfied once the TTL falls within the timelock", () => {
+    const [check] = evaluateNativeScripts(treasuryTx("900"));
+
+    expect(check.satisfied).toBe(true);
+    expect(check.evaluation.reason).toBe("2 of 3 satisfied, 2 required");
+  });
+});
+
+describe("evaluateNativeScript", () => {
+  it("requires a validity start for timelock starts", () => {
+    const after = { type: "after" as const, slot: "500" };
+
+    expect(evaluateNativeScript(after, { signers: [], validityStart: null, ttl: null })).toMatchObject({
+      satisfied: false,
+      reason: "needs a validity start at or after slot 500",
+    });
+    expect(evaluateNativeScript(after, { signers: [], validityStart: "500", ttl: null }).satisfied).toBe(true);
+    expect(evaluateNativeScript({ type: "any", scripts: [] }, { signers: [], validityStart: null, ttl: null }).reason).toBe(
+      "0 of 0 satisfied, 1 required",
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { decodeTransaction } from "./decoder.js";
+import { verifySignatures } from "./signatures.js";
+import type {
+  DecodedNativeScript,
+  NativeScriptCheck,
+  NativeScriptContext,
+  NativeScriptEvaluation,
+} from "./types.js";
+
+function evaluateTimelock(
+  script: Extract<DecodedNativeScript, { type: "after" | "before" }>,
+  context: NativeScriptContext,
+): { satisfied: boolean; reason: string } {
+  const slot = BigInt(script.slot);
+  if (script.type === "after") {
+    // The transaction must not be valid before the lock starts
+    if (context.validityStart === null) return { satisfied: false, reason: `needs a validity start at or after slot ${slot}` };
+    const start = BigInt(context.validityStart);
+    return start >= slot
+      ? { satisfied: true, reason: `validity start ${start} is at or after slot ${slot}` }
+      : { satisfied: false, reason: `validity start ${start} is before slot ${slot}` };
+  }
+  // The transaction must expire no later than the lock does
+  if (context.ttl === null) return { satisfied: false, reason: `needs a TTL at or before slot ${slot}` };
+  const ttl = BigInt(context.ttl);
+  return ttl <= slot
+    ? { satisfied: true, reason: `TTL ${ttl} is at or before slot ${slot}` }
+    : { satisfied: false, reason: `TTL ${ttl} is after slot ${slot}` };
+}
+
+/**
+ * Evaluate a native script as the ledger does, recording for every node
+ * whether it is satisfied and why
+ */
+export function evaluateNativeScript(
+  script: DecodedNativeScript,
+  context: NativeScriptContext,
+  path: string = "$",
+): NativeScriptEvaluation {
+  switch (script.type) {
+    case "sig": {
+      const satisfied = context.signers.includes(script.keyHash);
+      const reason = satisfied ? `signed by ${script.keyHash}` : `no valid signature from ${script.keyHash}`;
+      return { path, type: script.type, satisfied, reason };
+    }
+    case "after":
+    case "before":
+      return { path, type: script.type, ...evaluateTimelock(script, context) };
+    default: {
+      const children = script.scripts.map((child, i) => evaluateNativeScript(child, context, `${path}[${i}]`));
+      const count = children.filter((child) => child.satisfied).length;
+      const required = script.type === "all" ? children.length : script.type === "any" ? 1 : script.required;
+      return {
+        path,
+        type: script.type,
+        satisfied: count >= required,
+        reason: `${count} of ${children.length} satisfied, ${required} required`,
+        children,
+      };
+    }
+  }
+}
+
+/**
+ * Evaluate the witness set's native scripts against the keys that validly
+ * signed the transaction and its validity interval
+ */
+export function evaluateNativeScripts(txHex: string): NativeScriptCheck[] {
+  const decoded = decodeTransaction(txHex);
+  const signatures = verifySignatures(txHex);
+  const context: NativeScriptContext = {
+    signers: signatures.witnesses.filter((w) => w.valid).map((w) => w.keyHash),
+    validityStart: decoded.validityStart,
+    ttl: decoded.ttl,
+  };
+
+  return (decoded.witnessSet.nativeScripts ?? []).map(({ hash, script }) => {
+    const evaluation = evaluateNativeScript(script, context);
+    return { hash, satisfied: evaluation.satisfied, evaluation };
+  });
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { parseProtocolParameters } from "./params.js";
+
+describe("parseProtocolParameters", () => {
+  it("reads cardano-cli cost models", () => {
+    const params = parseProtocolParameters({ costModels: { PlutusV1: [1, 2], PlutusV3: [3] } });
+
+    expect(params.costModels).toEqual({ PlutusV1: [1, 2], PlutusV3: [3] });
+  });
+
+  it("reads Ogmios cost models and named parameters", () => {
+    const params = parseProtocolParameters({
+      plutusCostModels: {
+        "plutus:v2": { "addInteger-cpu-arguments-intercept": 100, "addInteger-cpu-arguments-slope": 2 },
+      },
+    });
+
+    expect(params.costModels).toEqual({ PlutusV2: [100, 2] });
+  });
+
+  it("rejects non-object input", () => {
+    expect(() => parseProtocolParameters([])).toThrow();
+  });
+});
@@ -0,0 +1,98 @@
+import type { CostModels, PlutusLanguage, ProtocolParameters } from "./types.js";
+
+const COST_MODEL_KEYS = ["costModels", "cost_models_raw", "cost_models", "plutusCostModels"];
+
+/** Field paths for each parameter in cardano-cli, Blockfrost and Ogmios documents */
+const PARAMETER_PATHS: Record<Exclude<keyof ProtocolParameters, "costModels">, string[]> = {
+  minFeeA: ["txFeePerByte", "min_fee_a", "minFeeCoefficient"],
+  minFeeB: ["txFeeFixed", "min_fee_b", "minFeeConstant"],
+  maxTxSize: ["maxTxSize", "max_tx_size", "maxTransactionSize.bytes"],
+  coinsPerUtxoByte: ["utxoCostPerByte", "coins_per_utxo_size", "coins_per_utxo_byte", "minUtxoDepositCoefficient"],
+  collateralPercentage: ["collateralPercentage", "collateral_percent"],
+  maxCollateralInputs: ["maxCollateralInputs", "max_collateral_inputs"],
+  keyDeposit: ["stakeAddressDeposit", "key_deposit", "stakeCredentialDeposit"],
+  poolDeposit: ["stakePoolDeposit", "pool_deposit"],
+  drepDeposit: ["dRepDeposit", "drep_deposit", "delegateRepresentativeDeposit"],
+  govActionDeposit: ["govActionDeposit", "gov_action_deposit", "governanceActionDeposit"],
+  priceMem: ["executionUnitPrices.priceMemory", "price_mem", "scriptExecutionPrices.memory"],
+  priceSteps: ["executionUnitPrices.priceSteps", "price_step", "scriptExecutionPrices.cpu"],
+  minFeeRefScriptCostPerByte: [
+    "minFeeRefScriptCostPerByte",
+    "min_fee_ref_script_cost_per_byte",
+    "minFeeReferenceScripts.base",
+  ],
+  maxTxExMem: ["maxTxExecutionUnits.memory", "max_tx_ex_mem", "maxExecutionUnitsPerTransaction.memory"],
+  maxTxExSteps: ["maxTxExecutionUnits.steps", "max_tx_ex_steps", "maxExecutionUnitsPerTransaction.cpu"],
+};
+
+/**
+ * Coerce a parameter value to a number. Accepts numbers, numeric strings,
+ * rationals ("577/10000") and Ogmios lovelace objects ({ ada: { lovelace } }).
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    const [numerator, denominator] = value.split("/").map(Number);
+    const n = denominator === undefined ? numerator : numerator / denominator;
+    return Number.isFinite(n) ? n : undefined;
+  }
+  if (value && typeof value === "object") {
+    const lovelace = (value as { ada?: { lovelace?: unknown } }).ada?.lovelace;
+    return lovelace === undefined ? undefined : toNumber(lovelace);
+  }
+  return undefined;
+}
+
+function pick(params: Record<string, unknown>, paths: string[]): number | undefined {
+  for (const path of paths) {
+    const value = path.split(".").reduce<unknown>(
+      (obj, key) => (obj && typeof obj === "object" ? (obj as Record<string, unknown>)[key] : undefined),
+      params,
+    );
+    const n = toNumber(value);
+    if (n !== undefined) return n;
+  }
+  return undefined;
+}
+
+/**
+ * Map the language keys used by cardano-cli, Blockfrost and Ogmios
+ * ("PlutusV2", "PlutusScriptV2", "plutus:v2") to a Plutus language
+ */
+function toPlutusLanguage(key: string): PlutusLanguage | null {
+  const version = key.match(/v([123])$/i)?.[1];
+  return version ? (`PlutusV${version}` as PlutusLanguage) : null;
+}
+
+/**
+ * Read cost models from a protocol parameters object. Each model may be an
+ * array of integers or an object of named parameters in ledger order.
+ */
+export function parseCostModels(params: Record<string, unknown>): CostModels {
+  const key = COST_MODEL_KEYS.find((k) => params[k] && typeof params[k] === "object");
+  if (!key) return {};
+
+  const costModels: CostModels = {};
+  for (const [name, model] of Object.entries(params[key] as Record<string, unknown>)) {
+    const language = toPlutusLanguage(name);
+    if (!language || !model || typeof model !== "object") continue;
+    costModels[language] = (Array.isArray(model) ? model : Object.values(model)).map(Number);
+  }
+  return costModels;
+}
+
+/**
+ * Parse a protocol parameters JSON document (cardano-cli, Blockfrost or Ogmios format)
+ */
+export function parseProtocolParameters(json: unknown): ProtocolParameters {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("Protocol parameters must be a JSON object");
+  }
+  const params = json as Record<string, unknown>;
+  const result: ProtocolParameters = { costModels: parseCostModels(params) };
+  for (const [name, paths] of Object.entries(PARAMETER_PATHS)) {
+    const value = pick(params, paths);
+    if (value !== undefined) result[name as keyof typeof PARAMETER_PATHS] = value;
+  }
+  return result;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { compareTransactions } from "./compare.js";
+import { decodeTransaction } from "./decoder.js";
+import { parseComparisonPolicy } from "./policy.js";
+import { PLUTUS_TX_HEX } from "./test-fixtures.js";
+import type { DecodedTransaction } from "./types.js";
+
+const base = decodeTransaction(PLUTUS_TX_HEX);
+const [redeemer] = base.witnessSet.redeemers!;
+const inputs = [
+  { txHash: "aa".repeat(32), index: 0 },
+  { txHash: "bb".repeat(32), index: 0 },
+];
+
+/** Another build: reversed inputs, less change, +3% fee and +5% mem / +20% steps on the redeemer */
+function rebuilt(): [DecodedTransaction, DecodedTransaction] {
+  const tx1 = { ...base, inputs };
+  const tx2 = {
+    ...base,
+    inputs: [...inputs].reverse(),
+    outputs: [{ ...base.outputs[0], value: { ...base.outputs[0].value, lovelace: "9794000" } }],
+    fee: "206000",
+    witnessSet: { ...base.witnessSet, redeemers: [{ ...redeemer, exUnits: { mem: "1050000", steps: "480000000" } }] },
+  };
+  return [tx1, tx2];
+}
+
+describe("compareTransactions with a policy", () => {
+  it("reports every difference without a policy", () => {
+    const [tx1, tx2] = rebuilt();
+    const result = compareTransactions(tx1, tx2);
+
+    expect(result.differences.map((d) => [d.path, d.severity])).toEqual([
+      ["inputs[aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa#0]", "error"],
+      ["inputs[bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb#0]", "error"],
+      ["redeemers[0].exUnits.mem", "error"],
+      ["redeemers[0].exUnits.steps", "error"],
+      ["outputs[0].value.lovelace", "warning"],
+      ["fee", "warning"],
+    ]);
+    expect(result.suppressed).toEqual([]);
+  });
+
+  it("suppresses ignored paths and tolerated changes, and lowers reordered inputs to warnings", () => {
+    const [tx1, tx2] = rebuilt();
+    const policy = {
+      ignore: ["outputs[*].value.lovelace"],
+      tolerance: { fee: 5, exUnits: 10 },
+      inputReordering: "warning" as const,
+    };
+    const result = compareTransactions(tx1, tx2, { policy });
+
+    expect(result.differences.map((d) => [d.path, d.kind, d.severity])).toEqual([
+      ["inputs[aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa#0]", "reordered", "warning"],
+      ["inputs[bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb#0]", "reordered", "warning"],
+      ["redeemers[0].exUnits.steps", "changed", "error"],
+    ]);
+    expect(result.suppressed.map((d) => [d.path, d.reason])).toEqual([
+      ["redeemers[0].exUnits.mem", "within the 10% exUnits tolerance"],
+      ["outputs[0].value.lovelace", 'ignored by "outputs[*].value.lovelace"'],
+      ["fee", "within the 5% fee tolerance"],
+    ]);
+    expect(result.inputOrderMatch).toBe(false);
+  });
+
+  it("ignores everything under a path", () => {
+    const [tx1, tx2] = rebuilt();
+    const result = compareTransactions(tx1, tx2, { policy: { ignore: ["redeemers", "inputs"] } });
+
+    expect(result.differences.map((d) => d.section)).toEqual(["outputs", "fee"]);
+    expect(result.suppressed).toHaveLength(4);
+  });
+});
+
+describe("parseComparisonPolicy", () => {
+  it("reads a policy config file", () => {
+    const json = { ignore: ["metadata"], tolerance: { fee: 2.5 }, inputReordering: "info" };
+
+    expect(parseComparisonPolicy(json)).toEqual(json);
+    expect(parseComparisonPolicy({})).toEqual({});
+  });
+
+  it("rejects unknown fields and invalid values", () => {
+    expect(() => parseComparisonPolicy({ ignored: ["fee"] })).toThrow(/Unknown comparison policy field "ignored"/);
+    expect(() => parseComparisonPolicy({ ignore: "fee" })).toThrow(/list of difference paths/);
+    expect(() => parseComparisonPolicy({ tolerance: { fees: 5 } })).toThrow(/Unknown tolerance "fees"/);
+    expect(() => parseComparisonPolicy({ tolerance: { fee: -1 } })).toThrow(/non-negative percentage/);
+    expect(() => parseComparisonPolicy({ inputReordering: "ignore" })).toThrow(/one of error, warning, info/);
+  });
+});
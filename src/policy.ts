@@ -0,0 +1,104 @@
+import type { ComparisonPolicy, Difference, DifferenceSeverity, SuppressedDifference } from "./types.js";
+
+const SEVERITIES: DifferenceSeverity[] = ["error", "warning", "info"];
+const TOLERANCES = ["fee", "exUnits"] as const;
+
+/**
+ * Parse a comparison policy from a JSON config file:
+ *   { "ignore": ["outputs[*].value.lovelace"], "tolerance": { "fee": 5, "exUnits": 10 }, "inputReordering": "warning" }
+ */
+export function parseComparisonPolicy(json: unknown): ComparisonPolicy {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("Comparison policy must be a JSON object");
+  }
+  const config = json as Record<string, unknown>;
+  const unknown = Object.keys(config).find((key) => !["ignore", "tolerance", "inputReordering"].includes(key));
+  if (unknown) {
+    throw new Error(`Unknown comparison policy field "${unknown}"; expected ignore, tolerance or inputReordering`);
+  }
+
+  const { ignore, tolerance, inputReordering } = config;
+  if (ignore !== undefined && !(Array.isArray(ignore) && ignore.every((path) => typeof path === "string"))) {
+    throw new Error("Comparison policy ignore must be a list of difference paths");
+  }
+  if (tolerance !== undefined) {
+    if (!tolerance || typeof tolerance !== "object" || Array.isArray(tolerance)) {
+      throw new Error("Comparison policy tolerance must be an object with fee and exUnits percentages");
+    }
+    Object.entries(tolerance).forEach(([key, percent]) => {
+      if (!(TOLERANCES as readonly string[]).includes(key)) {
+        throw new Error(`Unknown tolerance "${key}"; expected ${TOLERANCES.join(" or ")}`);
+      }
+      if (typeof percent !== "number" || percent < 0) {
+        throw new Error(`Tolerance ${key} must be a non-negative percentage`);
+      }
+    });
+  }
+  if (inputReordering !== undefined && !SEVERITIES.includes(inputReordering as DifferenceSeverity)) {
+    throw new Error(`Comparison policy inputReordering must be one of ${SEVERITIES.join(", ")}`);
+  }
+
+  return {
+    ...(ignore !== undefined && { ignore: ignore as string[] }),
+    ...(tolerance !== undefined && { tolerance: tolerance as ComparisonPolicy["tolerance"] }),
+    ...(inputReordering !== undefined && { inputReordering: inputReordering as DifferenceSeverity }),
+  };
+}
+
+/**
+ * Match a path and the paths under it, with "*" matching any characters
+ */
+function pathPattern(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}(?=$|[.[])`);
+}
+
+/** A changed amount that moved by at most the given percentage of TX1's amount */
+function withinTolerance(d: Difference, percent: number | undefined): boolean {
+  if (percent === undefined || d.kind !== "changed") return false;
+  if (typeof d.oldValue !== "string" || typeof d.newValue !== "string") return false;
+  const [amount1, amount2] = [Number(d.oldValue), Number(d.newValue)];
+  return Math.abs(amount2 - amount1) <= (Math.abs(amount1) * percent) / 100;
+}
+
+function suppressionReason(d: Difference, policy: ComparisonPolicy, ignore: Array<[string, RegExp]>): string | null {
+  const ignoredBy = ignore.find(([, pattern]) => pattern.test(d.path));
+  if (ignoredBy) return `ignored by "${ignoredBy[0]}"`;
+  if (d.section === "fee" && withinTolerance(d, policy.tolerance?.fee)) {
+    return `within the ${policy.tolerance!.fee}% fee tolerance`;
+  }
+  const exUnits = d.section === "redeemers" && /\.exUnits\.(mem|steps)$/.test(d.path);
+  if (exUnits && withinTolerance(d, policy.tolerance?.exUnits)) {
+    return `within the ${policy.tolerance!.exUnits}% exUnits tolerance`;
+  }
+  return null;
+}
+
+/**
+ * Split differences into those a policy reports and those it suppresses,
+ * and apply its severity for reordered spend inputs
+ */
+export function applyComparisonPolicy(
+  differences: Difference[],
+  policy: ComparisonPolicy,
+): { differences: Difference[]; suppressed: SuppressedDifference[] } {
+  const ignore = (policy.ignore ?? []).map((pattern): [string, RegExp] => [pattern, pathPattern(pattern)]);
+  const reported: Difference[] = [];
+  const suppressed: SuppressedDifference[] = [];
+
+  differences.forEach((d) => {
+    const reason = suppressionReason(d, policy, ignore);
+    if (reason) {
+      suppressed.push({ ...d, reason });
+    } else if (d.section === "inputs" && d.kind === "reordered" && policy.inputReordering) {
+      reported.push({ ...d, severity: policy.inputReordering });
+    } else {
+      reported.push(d);
+    }
+  });
+
+  return { differences: reported, suppressed };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { buildScriptContext, buildScriptContexts } from "./script-context.js";
+import { parseUtxos } from "./utxo.js";
+import { CONWAY_TX_HEX, PLUTUS_TX_HEX } from "./test-fixtures.js";
+
+// Script output holding 10 ADA and inline datum 42, plus a key-locked output
+const UTXOS = parseUtxos({
+  ["aa".repeat(32) + "#0"]:
+    "a300581d703a888d65f16790950a72daee1f63aa05add6d268434107cfa5b67712011a00989680028201d81842182a",
+  ["bb".repeat(32) + "#0"]: "82581d60c8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca35854281a004c4b40",
+});
+
+// The Conway fixture with a vote redeemer and a redeemer for its DRep registration (certificate 1)
+const CONWAY_REDEEMERS_TX_HEX = CONWAY_TX_HEX.replace(
+  /a0f5f6$/,
+  "a10582840400d87980821a000f42401a17d78400840201d87980821a000f42401a17d78400f5f6",
+);
+
+type Json = { fields: Json[]; list: Json[]; map: Array<{ k: Json; v: Json }> };
+
+const constr = (constructor: number, ...fields: unknown[]) => ({ constructor, fields });
+const int = (value: number) => ({ int: value });
+const bytes = (hex: string) => ({ bytes: hex });
+
+describe("buildScriptContext", () => {
+  it("builds a PlutusV2 context for a spend", () => {
+    const context = buildScriptContext(PLUTUS_TX_HEX, UTXOS, 0);
+    const [txInfo, purpose] = (context.json as Json).fields;
+
+    expect(context).toMatchObject({
+      purpose: "spend",
+      language: "PlutusV2",
+      scriptHash: "3a888d65f16790950a72daee1f63aa05add6d268434107cfa5b67712",
+    });
+    expect(txInfo.fields).toHaveLength(12);
+    // Spending (TxOutRef (TxId aaaa...) 0)
+    expect(purpose).toEqual(constr(1, constr(0, constr(0, bytes("aa".repeat(32))), int(0))));
+    // Fee as a value, and an always-valid range: (-inf, +inf)
+    expect(txInfo.fields[3]).toEqual({ map: [{ k: bytes(""), v: { map: [{ k: bytes(""), v: int(200000) }] } }] });
+    expect(txInfo.fields[7]).toEqual(constr(0, constr(0, constr(0), constr(1)), constr(0, constr(2), constr(1))));
+    expect(context.cbor.startsWith("d8799fd8799f9fd8799f")).toBe(true);
+  });
+
+  it("adds the redeemer and the spent datum for PlutusV3", () => {
+    const context = buildScriptContext(PLUTUS_TX_HEX, UTXOS, 0, { language: "PlutusV3" });
+    const [txInfo, redeemer, scriptInfo] = (context.json as Json).fields;
+
+    expect(txInfo.fields).toHaveLength(16);
+    expect(txInfo.fields[3]).toEqual(int(200000));
+    expect(redeemer).toEqual(constr(0));
+    // SpendingScript (TxOutRef aaaa... 0) (Just 42)
+    expect(scriptInfo).toEqual(constr(1, constr(0, bytes("aa".repeat(32)), int(0)), constr(0, int(42))));
+  });
+
+  it("includes Conway certificates, votes, proposals and treasury fields for PlutusV3", () => {
+    const [vote, cert] = buildScriptContexts(CONWAY_REDEEMERS_TX_HEX, UTXOS, { language: "PlutusV3" });
+    const txInfo = (vote.json as Json).fields[0].fields;
+    const drepScript = constr(1, bytes("22".repeat(28)));
+
+    expect(vote.scriptHash).toBe("22".repeat(28));
+    // VotingScript (DRepVoter (ScriptCredential 2222...))
+    expect((vote.json as Json).fields[2]).toEqual(constr(4, constr(1, drepScript)));
+    // CertifyingScript 1 (TxCertRegDRep (ScriptCredential 2222...) 500000000)
+    expect((cert.json as Json).fields[2]).toEqual(constr(3, int(1), constr(4, drepScript, int(500000000))));
+    // TxCertDelegStaking (PubKeyCredential 1111...) (DelegVote DRepAlwaysAbstain)
+    expect(txInfo[5].list[0]).toEqual(constr(2, constr(0, bytes("11".repeat(28))), constr(1, constr(1))));
+    expect(txInfo[12].map[0].v).toEqual({ map: [{ k: constr(0, bytes("44".repeat(32)), int(2)), v: constr(1) }] });
+    // ProposalProcedure 100000000000 (PubKeyCredential 1111...) InfoAction
+    expect(txInfo[13].list[0].fields[2]).toEqual(constr(6));
+    expect(txInfo.slice(14)).toEqual([constr(0, int(1000000)), constr(0, int(7))]);
+  });
+
+  it("refuses what older script languages can't see", () => {
+    expect(() => buildScriptContext(PLUTUS_TX_HEX, UTXOS, 0, { language: "PlutusV1" })).toThrow(/inline datums/);
+    expect(() => buildScriptContext(CONWAY_REDEEMERS_TX_HEX, UTXOS, 0, { language: "PlutusV2" })).toThrow(
+      /can't see votes/,
+    );
+  });
+
+  it("needs every spent and referenced UTxO and a known script language", () => {
+    expect(() => buildScriptContext(PLUTUS_TX_HEX, UTXOS.slice(1), 0)).toThrow(/missing inputs: a{64}#0/);
+    expect(() => buildScriptContext(CONWAY_REDEEMERS_TX_HEX, UTXOS, 0)).toThrow(/pass a language/);
+    expect(() => buildScriptContext(PLUTUS_TX_HEX, UTXOS, 1)).toThrow(/no redeemer \[1\]/);
+  });
+});
@@ -0,0 +1,627 @@
+import { Address, PointerAddress, Transaction } from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { decodeCbor, encodeCborHeader, encodeCborInt, getMapEntry, type CborNode } from "./cbor.js";
+import { REDEEMER_PURPOSES, decodePlutusData, decodeTransaction, toArray } from "./decoder.js";
+import { MAINNET_SLOT_CONFIG, slotToTime } from "./time.js";
+import type {
+  DecodedAddress,
+  DecodedCredential,
+  DecodedInput,
+  DecodedOutput,
+  DecodedRedeemer,
+  DecodedTransaction,
+  DecodedUtxo,
+  PlutusLanguage,
+  RedeemerPurpose,
+  ScriptContext,
+  SlotConfig,
+} from "./types.js";
+
+/** Plutus data as built here, before encoding */
+type Data =
+  | { constr: number; fields: Data[] }
+  | { map: Array<[Data, Data]> }
+  | { list: Data[] }
+  | { int: bigint }
+  | { bytes: string };
+
+const constr = (index: number, ...fields: Data[]): Data => ({ constr: index, fields });
+const int = (value: number | string | bigint): Data => ({ int: BigInt(value) });
+const bytes = (hex: string): Data => ({ bytes: hex });
+const list = (items: Data[]): Data => ({ list: items });
+const map = (entries: Array<[Data, Data]>): Data => ({ map: entries });
+const maybe = (value: Data | null): Data => (value ? constr(0, value) : constr(1));
+const bool = (value: boolean): Data => constr(value ? 1 : 0);
+
+const PLUTUS_LANGUAGES: PlutusLanguage[] = ["PlutusV1", "PlutusV2", "PlutusV3"];
+
+/** Redeemer tags in the ledger's order, which the redeemers map is sorted by */
+const PURPOSE_ORDER: RedeemerPurpose[] = ["spend", "mint", "cert", "reward", "vote", "propose"];
+
+/** Byte strings over 64 bytes are split into 64-byte chunks, as Plutus encodes them */
+function encodeBytes(hex: string): string {
+  if (hex.length <= 128) return encodeCborHeader(2, hex.length / 2) + hex;
+  const chunks = hex.match(/.{1,128}/g)!;
+  return "5f" + chunks.map((chunk) => encodeCborHeader(2, chunk.length / 2) + chunk).join("") + "ff";
+}
+
+/** Non-empty lists are indefinite-length, as Plutus encodes them */
+function encodeList(items: Data[]): string {
+  return items.length === 0 ? "80" : "9f" + items.map(encodeData).join("") + "ff";
+}
+
+function encodeInteger(value: bigint): string {
+  if (value >= -(2n ** 64n) && value < 2n ** 64n) return encodeCborInt(value);
+  const magnitude = (value < 0n ? -1n - value : value).toString(16);
+  return (value < 0n ? "c3" : "c2") + encodeBytes(magnitude.length % 2 ? `0${magnitude}` : magnitude);
+}
+
+/**
+ * Encode Plutus data the way the Plutus libraries do: constructors as tags
+ * 121-127, 1280-1400 or 102, indefinite-length lists, chunked long byte
+ * strings and bignums beyond 64 bits
+ */
+function encodeData(data: Data): string {
+  if ("constr" in data) {
+    const { constr: index, fields } = data;
+    if (index < 7) return encodeCborHeader(6, 121 + index) + encodeList(fields);
+    if (index < 128) return encodeCborHeader(6, 1280 + index - 7) + encodeList(fields);
+    return "d86682" + encodeCborInt(index) + encodeList(fields);
+  }
+  if ("map" in data) {
+    return encodeCborHeader(5, data.map.length) + data.map.map(([k, v]) => encodeData(k) + encodeData(v)).join("");
+  }
+  if ("list" in data) return encodeList(data.list);
+  if ("int" in data) return encodeInteger(data.int);
+  return encodeBytes(data.bytes);
+}
+
+/**
+ * Plutus data from CBOR. Outside datums and redeemers this also converts the
+ * ledger's protocol parameter updates: rationals (tag 30) and sets (tag 258)
+ * become lists.
+ */
+function cborToData(node: CborNode): Data {
+  switch (node.type) {
+    case "uint":
+    case "nint":
+      return int(node.value);
+    case "bytes":
+      return bytes(Buffer.from(node.value).toString("hex"));
+    case "array":
+      return list(node.items.map(cborToData));
+    case "map":
+      return map(node.entries.map(([k, v]) => [cborToData(k), cborToData(v)]));
+    case "tag": {
+      const tag = Number(node.tag);
+      const { item } = node;
+      if (tag === 2 || tag === 3) {
+        if (item.type !== "bytes") break;
+        const magnitude = BigInt(`0x${Buffer.from(item.value).toString("hex") || "0"}`);
+        return int(tag === 2 ? magnitude : -1n - magnitude);
+      }
+      if (tag === 30 || tag === 258) return cborToData(item);
+      if (item.type !== "array") break;
+      if (tag >= 121 && tag <= 127) return constr(tag - 121, ...item.items.map(cborToData));
+      if (tag >= 1280 && tag <= 1400) return constr(tag - 1280 + 7, ...item.items.map(cborToData));
+      if (tag === 102 && item.items[0]?.type === "uint" && item.items[1]?.type === "array") {
+        return constr(Number(item.items[0].value), ...item.items[1].items.map(cborToData));
+      }
+      break;
+    }
+  }
+  throw new Error(`CBOR ${node.type} at byte ${node.offset} is not Plutus data`);
+}
+
+const hexToData = (hex: string) => cborToData(decodeCbor(Buffer.from(hex, "hex")));
+const hexOf = (node: CborNode) => (node.type === "bytes" ? Buffer.from(node.value).toString("hex") : "");
+const uintOf = (node: CborNode | undefined) => (node?.type === "uint" ? node.value : 0n);
+const isNull = (node: CborNode | undefined) => !node || (node.type === "simple" && node.value === null);
+
+/** Items of a CBOR array or tag 258 set */
+function itemsOf(node: CborNode | undefined): CborNode[] {
+  if (node?.type === "tag") return itemsOf(node.item);
+  return node?.type === "array" ? node.items : [];
+}
+
+/** Sort by key with plain code-unit comparison, matching the ledger's byte ordering */
+function sortBy<T>(items: T[], key: (item: T) => string): T[] {
+  return [...items].sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0));
+}
+
+/** Ledger credential order: script hashes before key hashes */
+const credentialKey = (cred: DecodedCredential) => `${cred.type === "script" ? 0 : 1}${cred.hash}`;
+const refKey = (input: DecodedInput) => `${input.txHash}${input.index.toString(16).padStart(8, "0")}`;
+
+function credential(cred: DecodedCredential): Data {
+  return constr(cred.type === "key" ? 0 : 1, bytes(cred.hash));
+}
+
+/** Credential encoded as [0, key hash] or [1, script hash] */
+function cborCredential(node: CborNode): Data {
+  const [kind, hash] = itemsOf(node);
+  return constr(Number(uintOf(kind)), bytes(hexOf(hash)));
+}
+
+/** Credential of a reward account, from its header byte */
+function rewardCredential(node: CborNode): Data {
+  const hex = hexOf(node);
+  return constr(parseInt(hex.slice(0, 2), 16) & 0x10 ? 1 : 0, bytes(hex.slice(2)));
+}
+
+const stakingHash = (cred: Data) => constr(0, cred);
+
+function addressData(address: DecodedAddress): Data {
+  if (!address.paymentCredential) {
+    throw new Error(`Scripts can't see Byron address ${address.bech32}`);
+  }
+  const pointer = PointerAddress.from_address(Address.from_bech32(address.bech32))?.stake_pointer();
+  const staking = pointer
+    ? constr(
+        1,
+        int(pointer.slot_bignum().to_str()),
+        int(pointer.tx_index_bignum().to_str()),
+        int(pointer.cert_index_bignum().to_str()),
+      )
+    : address.stakeCredential && stakingHash(credential(address.stakeCredential));
+  return constr(0, credential(address.paymentCredential), maybe(staking));
+}
+
+/** Value as a policy -> asset name -> quantity map, sorted by policy and name, with ada under "" */
+function valueData(lovelace: string | null, assets: Record<string, Record<string, string>>): Data {
+  const ada: Array<[Data, Data]> = lovelace === null ? [] : [[bytes(""), map([[bytes(""), int(lovelace)]])]];
+  const policies = sortBy(Object.entries(assets), ([policyId]) => policyId).map(([policyId, names]): [Data, Data] => [
+    bytes(policyId),
+    map(sortBy(Object.entries(names), ([name]) => name).map(([name, quantity]) => [bytes(name), int(quantity)])),
+  ]);
+  return map([...ada, ...policies]);
+}
+
+interface ContextBuilder {
+  language: PlutusLanguage;
+  tx: DecodedTransaction;
+  body: CborNode;
+  utxos: Map<string, DecodedUtxo>;
+  /** Purpose of each witness set redeemer */
+  purposes: RedeemerPurpose[];
+  /** Inputs, policies, certificates, reward accounts, voters and proposals in redeemer index order */
+  targets: Record<RedeemerPurpose, unknown[]>;
+}
+
+function txId(b: ContextBuilder, hash: string): Data {
+  return b.language === "PlutusV3" ? bytes(hash) : constr(0, bytes(hash));
+}
+
+function outRef(b: ContextBuilder, input: DecodedInput): Data {
+  return constr(0, txId(b, input.txHash), int(input.index));
+}
+
+function txOut(b: ContextBuilder, output: DecodedOutput): Data {
+  const address = addressData(output.address);
+  const value = valueData(output.value.lovelace, output.value.assets);
+  if (b.language === "PlutusV1") {
+    if (output.datum?.type === "inline") throw new Error("PlutusV1 scripts can't see inline datums");
+    if (output.referenceScript) throw new Error("PlutusV1 scripts can't see reference scripts");
+    return constr(0, address, value, maybe(output.datum ? bytes(output.datum.hash) : null));
+  }
+  const datum =
+    output.datum?.type === "inline"
+      ? constr(2, hexToData(output.datum.hex))
+      : output.datum
+        ? constr(1, bytes(output.datum.hash))
+        : constr(0);
+  return constr(0, address, value, datum, maybe(output.referenceScript ? bytes(output.referenceScript.hash) : null));
+}
+
+function txInInfo(b: ContextBuilder, input: DecodedInput): Data {
+  const utxo = b.utxos.get(`${input.txHash}#${input.index}`)!;
+  return constr(0, outRef(b, input), txOut(b, utxo));
+}
+
+/** Pre-Conway DCert of PlutusV1 and V2; Conway registrations map to the old ones */
+function dcert(node: CborNode): Data {
+  const [kind, ...fields] = itemsOf(node);
+  switch (Number(uintOf(kind))) {
+    case 0:
+    case 7:
+      return constr(0, stakingHash(cborCredential(fields[0])));
+    case 1:
+    case 8:
+      return constr(1, stakingHash(cborCredential(fields[0])));
+    case 2:
+      return constr(2, stakingHash(cborCredential(fields[0])), bytes(hexOf(fields[1])));
+    case 3:
+      return constr(3, bytes(hexOf(fields[0])), bytes(hexOf(fields[1])));
+    case 4:
+      return constr(4, bytes(hexOf(fields[0])), int(uintOf(fields[1])));
+    case 5:
+      return constr(5);
+    case 6:
+      return constr(6);
+    default:
+      throw new Error(`PlutusV1 and V2 scripts can't see Conway certificate type ${uintOf(kind)}`);
+  }
+}
+
+/** DRep encoded as [0, key hash], [1, script hash], [2] (abstain) or [3] (no confidence) */
+function drep(node: CborNode): Data {
+  const kind = Number(uintOf(itemsOf(node)[0]));
+  return kind < 2 ? constr(0, cborCredential(node)) : constr(kind - 1);
+}
+
+/** PlutusV3 TxCert */
+function txCert(node: CborNode): Data {
+  const [kind, ...fields] = itemsOf(node);
+  const cred = () => cborCredential(fields[0]);
+  const pool = (i: number) => bytes(hexOf(fields[i]));
+  switch (Number(uintOf(kind))) {
+    case 0:
+      return constr(0, cred(), maybe(null));
+    case 1:
+      return constr(1, cred(), maybe(null));
+    case 2:
+      return constr(2, cred(), constr(0, pool(1)));
+    case 3:
+      return constr(7, pool(0), pool(1));
+    case 4:
+      return constr(8, pool(0), int(uintOf(fields[1])));
+    case 7:
+      return constr(0, cred(), maybe(int(uintOf(fields[1]))));
+    case 8:
+      return constr(1, cred(), maybe(int(uintOf(fields[1]))));
+    case 9:
+      return constr(2, cred(), constr(1, drep(fields[1])));
+    case 10:
+      return constr(2, cred(), constr(2, pool(1), drep(fields[2])));
+    case 11:
+      return constr(3, cred(), constr(0, pool(1)), int(uintOf(fields[2])));
+    case 12:
+      return constr(3, cred(), constr(1, drep(fields[1])), int(uintOf(fields[2])));
+    case 13:
+      return constr(3, cred(), constr(2, pool(1), drep(fields[2])), int(uintOf(fields[3])));
+    case 14:
+      return constr(9, cred(), cborCredential(fields[1]));
+    case 15:
+      return constr(10, cred());
+    case 16:
+      return constr(4, cred(), int(uintOf(fields[1])));
+    case 17:
+      return constr(6, cred(), int(uintOf(fields[1])));
+    case 18:
+      return constr(5, cred());
+    default:
+      throw new Error(`PlutusV3 scripts can't see certificate type ${uintOf(kind)}`);
+  }
+}
+
+function certData(b: ContextBuilder, node: CborNode): Data {
+  return b.language === "PlutusV3" ? txCert(node) : dcert(node);
+}
+
+/** Voter encoded as [0|1, committee hot key|script], [2|3, DRep key|script] or [4, pool key hash] */
+function voter(node: CborNode): Data {
+  const [kind, hash] = itemsOf(node);
+  const k = Number(uintOf(kind));
+  if (k === 4) return constr(2, bytes(hexOf(hash)));
+  return constr(k < 2 ? 0 : 1, constr(k % 2, bytes(hexOf(hash))));
+}
+
+/** Ledger voter order: committee, DRep, pool; script hashes before key hashes */
+const VOTER_ORDER = [1, 0, 3, 2, 4];
+
+function voterKey(node: CborNode): string {
+  const [kind, hash] = itemsOf(node);
+  return `${VOTER_ORDER[Number(uintOf(kind))]}${hexOf(hash)}`;
+}
+
+function govActionId(node: CborNode): Data {
+  const [txHash, index] = itemsOf(node);
+  return constr(0, bytes(hexOf(txHash)), int(uintOf(index)));
+}
+
+const maybeActionId = (node: CborNode) => maybe(isNull(node) ? null : govActionId(node));
+const maybeHash = (node: CborNode | undefined) => maybe(isNull(node) ? null : bytes(hexOf(node!)));
+
+function governanceAction(node: CborNode): Data {
+  const [kind, ...fields] = itemsOf(node);
+  switch (Number(uintOf(kind))) {
+    case 0:
+      return constr(0, maybeActionId(fields[0]), cborToData(fields[1]), maybeHash(fields[2]));
+    case 1: {
+      const [major, minor] = itemsOf(fields[1]);
+      return constr(1, maybeActionId(fields[0]), constr(0, int(uintOf(major)), int(uintOf(minor))));
+    }
+    case 2: {
+      const withdrawals = fields[0].type === "map" ? fields[0].entries : [];
+      return constr(
+        2,
+        map(withdrawals.map(([account, amount]) => [rewardCredential(account), int(uintOf(amount))])),
+        maybeHash(fields[1]),
+      );
+    }
+    case 3:
+      return constr(3, maybeActionId(fields[0]));
+    case 4: {
+      const added = fields[2].type === "map" ? fields[2].entries : [];
+      const [numerator, denominator] = itemsOf(fields[3]);
+      return constr(
+        4,
+        maybeActionId(fields[0]),
+        list(itemsOf(fields[1]).map(cborCredential)),
+        map(added.map(([cold, epoch]) => [cborCredential(cold), int(uintOf(epoch))])),
+        constr(0, int(uintOf(numerator)), int(uintOf(denominator))),
+      );
+    }
+    case 5:
+      return constr(5, maybeActionId(fields[0]), constr(0, maybeHash(itemsOf(fields[1])[1])));
+    default:
+      return constr(6);
+  }
+}
+
+function proposalProcedure(node: CborNode): Data {
+  const [deposit, rewardAccount, action] = itemsOf(node);
+  return constr(0, int(uintOf(deposit)), rewardCredential(rewardAccount), governanceAction(action));
+}
+
+/** Validity interval as a POSIX time range: [validity start, TTL) */
+function validRange(tx: DecodedTransaction, slotConfig: SlotConfig): Data {
+  const lower = tx.validityStart ? constr(1, int(slotToTime(tx.validityStart, slotConfig))) : constr(0);
+  const upper = tx.ttl ? constr(1, int(slotToTime(tx.ttl, slotConfig))) : constr(2);
+  return constr(0, constr(0, lower, bool(true)), constr(0, upper, bool(!tx.ttl)));
+}
+
+/** ScriptPurpose of PlutusV1/V2, or ScriptInfo of PlutusV3 (with the spent datum) */
+function purposeData(b: ContextBuilder, redeemer: DecodedRedeemer, purpose: RedeemerPurpose, withDatum: boolean): Data {
+  const i = Number(redeemer.index);
+  const target = b.targets[purpose][i];
+  if (target === undefined) {
+    throw new Error(`Redeemer ${purpose} index ${i} points past the end of its list`);
+  }
+  const v3 = b.language === "PlutusV3";
+  switch (purpose) {
+    case "spend": {
+      const input = target as DecodedInput;
+      if (!withDatum) return constr(1, outRef(b, input));
+      const datum = b.utxos.get(`${input.txHash}#${input.index}`)!.datum;
+      const witness =
+        datum?.type === "hash" ? b.tx.witnessSet.plutusData?.find((d) => d.hash === datum.hash)?.hex : undefined;
+      const hex = datum?.type === "inline" ? datum.hex : witness;
+      return constr(1, outRef(b, input), maybe(hex ? hexToData(hex) : null));
+    }
+    case "mint":
+      return constr(0, bytes(target as string));
+    case "reward": {
+      const cred = credential(target as DecodedCredential);
+      return constr(2, v3 ? cred : stakingHash(cred));
+    }
+    case "cert":
+      return v3 ? constr(3, int(i), txCert(target as CborNode)) : constr(3, dcert(target as CborNode));
+    case "vote":
+      return constr(4, voter(target as CborNode));
+    case "propose":
+      return constr(5, int(i), proposalProcedure(target as CborNode));
+  }
+}
+
+function txInfo(b: ContextBuilder, slotConfig: SlotConfig): Data {
+  const { tx, body, language } = b;
+  const v1 = language === "PlutusV1";
+  const v3 = language === "PlutusV3";
+  if (!v3 && (getMapEntry(body, 19) || getMapEntry(body, 20) || tx.currentTreasuryValue || tx.donation)) {
+    throw new Error(`${language} scripts can't see votes, proposals or treasury fields`);
+  }
+  if (v1 && tx.referenceInputs.length > 0) throw new Error("PlutusV1 scripts can't see reference inputs");
+
+  const inputs = (b.targets.spend as DecodedInput[]).map((input) => txInInfo(b, input));
+  const referenceInputs = sortBy(tx.referenceInputs, refKey).map((input) => txInInfo(b, input));
+  const outputs = tx.outputs.map((output) => txOut(b, output));
+  const mintAssets = Object.fromEntries(
+    tx.mint.map((policy) => [policy.policyId, Object.fromEntries(policy.assets.map((a) => [a.assetName, a.quantity]))]),
+  );
+  const mint = valueData(v3 ? null : "0", mintAssets);
+  const certs = itemsOf(getMapEntry(body, 4)).map((cert) => certData(b, cert));
+  const withdrawals = sortBy(tx.withdrawals, (w) => credentialKey(w.credential)).map((w): [Data, Data] => [
+    v3 ? credential(w.credential) : stakingHash(credential(w.credential)),
+    int(w.amount),
+  ]);
+  const signatories = [...tx.requiredSigners].sort().map(bytes);
+  const datums = sortBy(tx.witnessSet.plutusData ?? [], (d) => d.hash).map((d): [Data, Data] => [
+    bytes(d.hash),
+    hexToData(d.hex),
+  ]);
+  const redeemers = sortBy(
+    (tx.witnessSet.redeemers ?? []).map((redeemer, i) => ({ redeemer, purpose: b.purposes[i] })),
+    ({ redeemer, purpose }) => `${PURPOSE_ORDER.indexOf(purpose)}${redeemer.index.padStart(10, "0")}`,
+  ).map(({ redeemer, purpose }): [Data, Data] => [
+    purposeData(b, redeemer, purpose, false),
+    hexToData(redeemer.dataHex),
+  ]);
+
+  if (v1) {
+    const tuples = (entries: Array<[Data, Data]>) => list(entries.map(([k, v]) => constr(0, k, v)));
+    return constr(
+      0,
+      list(inputs),
+      list(outputs),
+      valueData(tx.fee, {}),
+      mint,
+      list(certs),
+      tuples(withdrawals),
+      validRange(tx, slotConfig),
+      list(signatories),
+      tuples(datums),
+      txId(b, tx.txHash),
+    );
+  }
+  const fields = [
+    list(inputs),
+    list(referenceInputs),
+    list(outputs),
+    v3 ? int(tx.fee) : valueData(tx.fee, {}),
+    mint,
+    list(certs),
+    map(withdrawals),
+    validRange(tx, slotConfig),
+    list(signatories),
+    map(redeemers),
+    map(datums),
+    txId(b, tx.txHash),
+  ];
+  if (!v3) return constr(0, ...fields);
+
+  const votes = getMapEntry(body, 19);
+  const actionKey = (node: CborNode) => {
+    const [txHash, index] = itemsOf(node);
+    return `${hexOf(txHash)}${uintOf(index).toString(16).padStart(8, "0")}`;
+  };
+  return constr(
+    0,
+    ...fields,
+    map(
+      sortBy(votes?.type === "map" ? votes.entries : [], ([v]) => voterKey(v)).map(([v, actions]) => [
+        voter(v),
+        map(
+          sortBy(actions.type === "map" ? actions.entries : [], ([id]) => actionKey(id)).map(([id, procedure]) => [
+            govActionId(id),
+            constr(Number(uintOf(itemsOf(procedure)[0]))),
+          ]),
+        ),
+      ]),
+    ),
+    list(itemsOf(getMapEntry(body, 20)).map(proposalProcedure)),
+    maybe(tx.currentTreasuryValue === null ? null : int(tx.currentTreasuryValue)),
+    maybe(tx.donation === null ? null : int(tx.donation)),
+  );
+}
+
+/** Hash of the script a redeemer runs, when its target is locked by or names a script */
+function scriptHash(b: ContextBuilder, purpose: RedeemerPurpose, target: unknown): string | null {
+  const scriptCredential = (node: CborNode | undefined) => {
+    const [kind, hash] = itemsOf(node);
+    return uintOf(kind) === 1n ? hexOf(hash) : null;
+  };
+  switch (purpose) {
+    case "spend": {
+      const input = target as DecodedInput;
+      const cred = b.utxos.get(`${input.txHash}#${input.index}`)!.address.paymentCredential;
+      return cred?.type === "script" ? cred.hash : null;
+    }
+    case "mint":
+      return target as string;
+    case "reward":
+      return (target as DecodedCredential).type === "script" ? (target as DecodedCredential).hash : null;
+    case "cert": {
+      const [kind, cred] = itemsOf(target as CborNode);
+      return uintOf(kind) === 3n || uintOf(kind) === 4n ? null : scriptCredential(cred);
+    }
+    case "vote": {
+      const [kind, hash] = itemsOf(target as CborNode);
+      return uintOf(kind) === 1n || uintOf(kind) === 3n ? hexOf(hash) : null;
+    }
+    case "propose": {
+      const [kind, ...fields] = itemsOf(itemsOf(target as CborNode)[2]);
+      const policy = uintOf(kind) === 0n ? fields[2] : uintOf(kind) === 2n ? fields[1] : undefined;
+      return isNull(policy) ? null : hexOf(policy!);
+    }
+  }
+}
+
+/**
+ * Build the ScriptContext a redeemer's script receives, as Plutus data, from
+ * a transaction and the UTxOs its inputs and reference inputs spend and read.
+ *
+ * The language is that of the script in the witness set or a reference input;
+ * pass `language` to build the context another language would see. PlutusV3
+ * contexts include the redeemer and the ScriptInfo, with the spent datum.
+ */
+export function buildScriptContext(
+  txHex: string,
+  utxos: DecodedUtxo[],
+  redeemerIndex: number,
+  options: { slotConfig?: SlotConfig; language?: PlutusLanguage } = {},
+): ScriptContext {
+  if (options.language && !PLUTUS_LANGUAGES.includes(options.language)) {
+    throw new Error(`Unknown Plutus language "${options.language}", expected ${PLUTUS_LANGUAGES.join(", ")}`);
+  }
+  const tx = decodeTransaction(txHex);
+  const redeemer = tx.witnessSet.redeemers?.[redeemerIndex];
+  if (!redeemer) {
+    throw new Error(`Transaction has no redeemer [${redeemerIndex}]`);
+  }
+  const resolved = new Map(utxos.map((utxo) => [`${utxo.txHash}#${utxo.index}`, utxo]));
+  const missing = [...tx.inputs, ...tx.referenceInputs]
+    .map((input) => `${input.txHash}#${input.index}`)
+    .filter((ref) => !resolved.has(ref));
+  if (missing.length > 0) {
+    throw new Error(`UTxO set is missing inputs: ${missing.join(", ")}`);
+  }
+
+  const txNode = decodeCbor(Buffer.from(txHex, "hex"));
+  const body = itemsOf(txNode)[0];
+  const votes = getMapEntry(body, 19);
+  const b: ContextBuilder = {
+    language: options.language ?? "PlutusV2",
+    tx,
+    body,
+    utxos: resolved,
+    purposes: toArray(Transaction.from_hex(txHex).witness_set().redeemers()).map(
+      (r) => REDEEMER_PURPOSES[r.tag().kind()],
+    ),
+    targets: {
+      spend: sortBy(tx.inputs, refKey),
+      mint: [...new Set(tx.mint.map((policy) => policy.policyId))].sort(),
+      cert: itemsOf(getMapEntry(body, 4)),
+      reward: sortBy(tx.withdrawals, (w) => credentialKey(w.credential)).map((w) => w.credential),
+      vote: sortBy(votes?.type === "map" ? votes.entries.map(([v]) => v) : [], voterKey),
+      propose: itemsOf(getMapEntry(body, 20)),
+    },
+  };
+
+  const purpose = b.purposes[redeemerIndex];
+  const hash = scriptHash(b, purpose, b.targets[purpose][Number(redeemer.index)]);
+  const referenceScript = [...tx.inputs, ...tx.referenceInputs]
+    .map((input) => resolved.get(`${input.txHash}#${input.index}`)!.referenceScript)
+    .find((script) => script?.hash === hash && script.language !== "Native");
+  const language =
+    options.language ??
+    tx.witnessSet.plutusScripts?.find((script) => script.hash === hash)?.language ??
+    (referenceScript?.language as PlutusLanguage | undefined);
+  if (!language) {
+    throw new Error(
+      hash
+        ? `Plutus script ${hash} is in neither the witness set nor a reference input; pass a language`
+        : `Redeemer [${redeemerIndex}] targets no script; pass a language`,
+    );
+  }
+  b.language = language;
+
+  const info = txInfo(b, options.slotConfig ?? MAINNET_SLOT_CONFIG);
+  const context =
+    language === "PlutusV3"
+      ? constr(0, info, hexToData(redeemer.dataHex), purposeData(b, redeemer, purpose, true))
+      : constr(0, info, purposeData(b, redeemer, purpose, false));
+  const cbor = encodeData(context);
+
+  return {
+    redeemer: redeemerIndex,
+    purpose,
+    index: redeemer.index,
+    target: redeemer.target ?? null,
+    scriptHash: hash,
+    language,
+    json: decodePlutusData(cbor),
+    cbor,
+  };
+}
+
+/**
+ * Build the ScriptContext of every redeemer of a transaction
+ */
+export function buildScriptContexts(
+  txHex: string,
+  utxos: DecodedUtxo[],
+  options: { slotConfig?: SlotConfig; language?: PlutusLanguage } = {},
+): ScriptContext[] {
+  const count = decodeTransaction(txHex).witnessSet.redeemers?.length ?? 0;
+  return Array.from({ length: count }, (_, i) => buildScriptContext(txHex, utxos, i, options));
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  Ed25519KeyHashes,
+  FixedTransaction,
+  PrivateKey,
+  Transaction,
+  TransactionHash,
+  TransactionWitnessSet,
+  make_vkey_witness,
+} from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { verifySignatures } from "./signatures.js";
+import { SAMPLE_TX_HEX } from "./test-fixtures.js";
+
+const alice = PrivateKey.from_normal_bytes(new Uint8Array(32).fill(1));
+const bob = PrivateKey.from_normal_bytes(new Uint8Array(32).fill(2));
+const carol = PrivateKey.from_normal_bytes(new Uint8Array(32).fill(3));
+const keyHash = (key: PrivateKey) => key.to_public().hash().to_hex();
+
+/** Sample body requiring alice and bob, signed by alice and carol, plus a bogus bob signature */
+function signedTx(): string {
+  const body = Transaction.from_hex(SAMPLE_TX_HEX).body();
+  const signers = Ed25519KeyHashes.new();
+  signers.add(alice.to_public().hash());
+  signers.add(bob.to_public().hash());
+  body.set_required_signers(signers);
+
+  const tx = FixedTransaction.new(body.to_bytes(), TransactionWitnessSet.new().to_bytes(), true);
+  tx.sign_and_add_vkey_signature(alice);
+  tx.sign_and_add_vkey_signature(carol);
+  tx.add_vkey_witness(make_vkey_witness(TransactionHash.from_bytes(new Uint8Array(32)), bob));
+  return tx.to_hex();
+}
+
+describe("verifySignatures", () => {
+  it("hashes the body as encoded in the transaction", () => {
+    const result = verifySignatures(SAMPLE_TX_HEX);
+
+    expect(result.bodyHash).toBe(FixedTransaction.from_hex(SAMPLE_TX_HEX).transaction_hash().to_hex());
+    expect(result.witnesses).toEqual([]);
+  });
+
+  it("decodes each witness and checks its signature", () => {
+    const result = verifySignatures(signedTx());
+
+    expect(result.witnesses.map((w) => [w.keyHash, w.valid])).toEqual([
+      [keyHash(alice), true],
+      [keyHash(carol), true],
+      [keyHash(bob), false],
+    ]);
+    expect(result.witnesses[0].publicKey).toBe(alice.to_public().to_hex());
+    expect(result.witnesses[0].signature).toHaveLength(128);
+  });
+
+  it("sorts required signers into satisfied and missing", () => {
+    const result = verifySignatures(signedTx());
+
+    expect(result.satisfied).toEqual([keyHash(alice)]);
+    expect(result.missing).toEqual([keyHash(bob)]);
+    expect(result.extra).toEqual([keyHash(carol)]);
+    expect(result.invalid).toEqual([keyHash(bob)]);
+  });
+});
@@ -0,0 +1,35 @@
+import { Ed25519Signature, FixedTransaction, PublicKey } from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { decodeVkeyWitness, toArray } from "./decoder.js";
+import type { SignatureVerification, VkeyWitnessCheck } from "./types.js";
+
+/**
+ * Check every vkey witness signature against the blake2b-256 hash of the
+ * body as encoded in the transaction, and match witnesses to required signers.
+ */
+export function verifySignatures(txHex: string): SignatureVerification {
+  // FixedTransaction keeps the original body bytes, so the hash is the real tx id
+  const tx = FixedTransaction.from_hex(txHex);
+  const bodyHash = tx.transaction_hash();
+  const message = bodyHash.to_bytes();
+
+  const witnesses: VkeyWitnessCheck[] = toArray(tx.witness_set().vkeys()).map((witness) => {
+    const decoded = decodeVkeyWitness(witness);
+    const valid = PublicKey.from_hex(decoded.publicKey).verify(
+      message,
+      Ed25519Signature.from_hex(decoded.signature),
+    );
+    return { ...decoded, valid };
+  });
+
+  const requiredSigners = toArray(tx.body().required_signers()).map((s) => s.to_hex());
+  const signed = new Set(witnesses.filter((w) => w.valid).map((w) => w.keyHash));
+
+  return {
+    bodyHash: bodyHash.to_hex(),
+    witnesses,
+    satisfied: requiredSigners.filter((hash) => signed.has(hash)),
+    missing: requiredSigners.filter((hash) => !signed.has(hash)),
+    extra: [...signed].filter((hash) => !requiredSigners.includes(hash)),
+    invalid: witnesses.filter((w) => !w.valid).map((w) => w.keyHash),
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Transaction fixtures shared by the test suites
+ */
+
+// Sample transaction hex from a real Cardano transaction
+export const SAMPLE_TX_HEX =
+  "84a700d901028282582008c49c049c49a665cbb83644b22662af7125a8ecd365a616b82388a1a7bb551000825820c4e43afd34dd0ad3340b495e7a58f0be40691b04b556f1ab52419927f4df5b8b00018383583911a76f0fb801a29f591e9871576508d85b0b5f3c38774f65032f58fdad5139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb256821a001430a2a1581c3373f1171594fc4be7f7e3a099252cd085a9734a5dfe4732e2311921a14d576f6e6465724d696c6b303935015820e735f209d58839f565e0190d00b9f6619b93793bdb45647256c29af4e4983af883583911a76f0fb801a29f591e9871576508d85b0b5f3c38774f65032f58fdad5139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb256821a001430a2a1581c3373f1171594fc4be7f7e3a099252cd085a9734a5dfe4732e2311921a14d576f6e6465724d696c6b303136015820493a91d5154bbf1e0f0ce025f84b0b052418c1fe62e93e8dd7b974b1da85d12882583901c8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca35854285139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb2561a164cd26b021a00036a51031a0a8ac2e307582010d70a7bf1ff1ed57b4ac55c6ed323880724390905b3f69b92615166c3ac9699081a0a8aa6b30b58205e4edebba50f3bf7be0d7ff7e07619b63d4edea30be0de8f641e5561206ef921a104d901029fd8799f9fd8799fd8799fd8799f581cc8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca3585428ffd8799fd8799fd8799f581c5139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb256ffffffff1a0a7d8c00ffd8799fd8799fd8799f581cd3854a7de25ea94326fec3b65ac36f20d59930118d83fead972d600effd8799fd8799fd8799f581c11a0974ad3660a0ffca16e2c72cce55033f225ee9a9f39fe23686209ffffffff1a01312d00ffff581cc8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca3585428ffd8799f9fd8799fd8799fd8799f581cc8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca3585428ffd8799fd8799fd8799f581c5139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb256ffffffff1a0fbc5200ffd8799fd8799fd8799f581cd3854a7de25ea94326fec3b65ac36f20d59930118d83fead972d600effd8799fd8799fd8799f581c11a0974ad3660a0ffca16e2c72cce55033f225ee9a9f39fe23686209ffffffff1a01c9c380ffff581cc8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca3585428fffff5a11902a2a1636d7367715761797570205472616e73616374696f6e";
+
+// Inputs and mint policies out of canonical order, with spend, mint and a dangling cert redeemer
+export const REDEEMER_TX_HEX =
+  "84a40082825820bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb00825820aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa01018182583901c8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca35854285139e81456c1b4e2f0af22c1e94ff22ea648588b03a7c7914b6eb2561a001e8480021a00030d4009a2581cdddddddddddddddddddddddddddddddddddddddddddddddddddddddda145746f6b656e01581ccccccccccccccccccccccccccccccccccccccccccccccccccccccccca1417820a10583840000182a821903e81907d0840101426869821903e81907d084020000821903e81907d0f5f6";
+
+// Conway body with vote delegation, DRep registration, committee auth, withdrawal, vote, proposal and donation
+export const CONWAY_TX_HEX =
+  "84a90081825820aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa000180021a00030d40048383098200581c11111111111111111111111111111111111111111111111111111111810284108201581c222222222222222222222222222222222222222222222222222222221a1dcd650082781d68747470733a2f2f6578616d706c652e636f6d2f647265702e6a736f6e58203333333333333333333333333333333333333333333333333333333333333333830e8200581c111111111111111111111111111111111111111111111111111111118201581c2222222222222222222222222222222222222222222222222222222205a1581de1111111111111111111111111111111111111111111111111111111111905dc13a18203581c22222222222222222222222222222222222222222222222222222222a18258204444444444444444444444444444444444444444444444444444444444444444028201f61481841b000000174876e800581de111111111111111111111111111111111111111111111111111111111810682781a68747470733a2f2f6578616d706c652e636f6d2f702e6a736f6e58205555555555555555555555555555555555555555555555555555555555555555151a000f42401607a0f5f6";
+
+// Plutus V2 always-succeeds spend of aaaa...#0 (inline datum 42), collateral bbbb...#0,
+// declaring 1000000 mem / 400000000 steps
+export const PLUTUS_TX_HEX =
+  "84a50081825820aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa00018182581d60c8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca35854281a00958940021a00030d400b5820ddec510654ff0754cc26bbe945a2e39e3ab098815e6501e6233df06c01dde81c0d81825820bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb00a20681494801000022212001010581840000d87980821a000f42401a17d78400f5f6";
+
+// Same spend with a V2 script that traces "boom" and fails
+export const FAILING_PLUTUS_TX_HEX =
+  "84a50081825820aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa00018182581d60c8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca35854281a00958940021a00030d400b5820ddec510654ff0754cc26bbe945a2e39e3ab098815e6501e6233df06c01dde81c0d81825820bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb00a2068153520100002225335738920104626f6f6d0016010581840000d87980821a000f42401a17d78400f5f6";
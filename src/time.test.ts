@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAINNET_SLOT_CONFIG,
+  SLOT_CONFIGS,
+  describeValidityInterval,
+  parseSlotConfig,
+  parseTime,
+  slotToTime,
+  timeToSlot,
+} from "./time.js";
+
+describe("slotToTime / timeToSlot", () => {
+  it("converts mainnet slots to POSIX time and back", () => {
+    expect(slotToTime(4492800, MAINNET_SLOT_CONFIG)).toBe(Date.parse("2020-07-29T21:44:51Z"));
+    expect(slotToTime("100000000", MAINNET_SLOT_CONFIG)).toBe(Date.parse("2023-08-09T07:31:31Z"));
+    expect(timeToSlot(Date.parse("2023-08-09T07:31:31Z"), MAINNET_SLOT_CONFIG)).toBe(100000000);
+  });
+
+  it("rounds times within a slot down to that slot", () => {
+    expect(timeToSlot(Date.parse("2023-08-09T07:31:31.999Z"), MAINNET_SLOT_CONFIG)).toBe(100000000);
+  });
+
+  it("has presets for the public testnets", () => {
+    expect(new Date(slotToTime(86400, SLOT_CONFIGS.preprod)).toISOString()).toBe("2022-06-21T00:00:00.000Z");
+    expect(new Date(slotToTime(1000, SLOT_CONFIGS.preview)).toISOString()).toBe("2022-10-25T00:16:40.000Z");
+  });
+});
+
+describe("parseSlotConfig", () => {
+  it("accepts an ISO system start and defaults zeroSlot to 0", () => {
+    expect(parseSlotConfig({ systemStart: "2024-01-01T00:00:00Z", slotLength: 1000 })).toEqual({
+      zeroTime: Date.parse("2024-01-01T00:00:00Z"),
+      zeroSlot: 0,
+      slotLength: 1000,
+    });
+  });
+
+  it("rejects configurations without a start or slot length", () => {
+    expect(() => parseSlotConfig({ slotLength: 1000 })).toThrow(/zeroTime/);
+    expect(() => parseSlotConfig({ zeroTime: 0 })).toThrow(/slotLength/);
+    expect(() => parseSlotConfig([])).toThrow(/JSON object/);
+  });
+});
+
+describe("parseTime", () => {
+  it("accepts ISO dates and POSIX milliseconds", () => {
+    expect(parseTime("2023-08-09T07:31:31Z")).toBe(1691566291000);
+    expect(parseTime("1691566291000")).toBe(1691566291000);
+    expect(() => parseTime("yesterday")).toThrow(/Invalid time/);
+  });
+});
+
+describe("describeValidityInterval", () => {
+  const tx = { validityStart: "100000000", ttl: "100000600" };
+
+  it("converts both bounds to UTC", () => {
+    expect(describeValidityInterval(tx)).toEqual({
+      validityStart: { slot: "100000000", posixTime: 1691566291000, utc: "2023-08-09T07:31:31.000Z" },
+      ttl: { slot: "100000600", posixTime: 1691566891000, utc: "2023-08-09T07:41:31.000Z" },
+    });
+    expect(describeValidityInterval({ validityStart: null, ttl: null })).toEqual({ validityStart: null, ttl: null });
+  });
+
+  it("flags transactions outside their interval at the reference time", () => {
+    expect(describeValidityInterval(tx, MAINNET_SLOT_CONFIG, 1691566291000).status).toBe("valid");
+    expect(describeValidityInterval(tx, MAINNET_SLOT_CONFIG, 1691566290999).status).toBe("notYetValid");
+    // The TTL slot itself is outside the interval
+    expect(describeValidityInterval(tx, MAINNET_SLOT_CONFIG, 1691566891000).status).toBe("expired");
+    expect(describeValidityInterval({ validityStart: null, ttl: null }, MAINNET_SLOT_CONFIG, 0).status).toBe("valid");
+  });
+});
@@ -0,0 +1,81 @@
+import type { DecodedTransaction, NetworkName, SlotConfig, SlotTime, ValidityInterval } from "./types.js";
+
+/** Shelley mainnet slot 4492800 started at 2020-07-29T21:44:51Z, with 1 second slots */
+export const MAINNET_SLOT_CONFIG: SlotConfig = { zeroTime: 1596059091000, zeroSlot: 4492800, slotLength: 1000 };
+
+/** Slot configurations of the public networks since their Shelley hard forks */
+export const SLOT_CONFIGS: Record<NetworkName, SlotConfig> = {
+  mainnet: MAINNET_SLOT_CONFIG,
+  preprod: { zeroTime: 1655769600000, zeroSlot: 86400, slotLength: 1000 },
+  preview: { zeroTime: 1666656000000, zeroSlot: 0, slotLength: 1000 },
+};
+
+/** POSIX time (milliseconds) at which a slot starts */
+export function slotToTime(slot: number | string | bigint, config: SlotConfig): number {
+  return Number(BigInt(slot) - BigInt(config.zeroSlot)) * config.slotLength + config.zeroTime;
+}
+
+/** Slot containing a POSIX time (milliseconds) */
+export function timeToSlot(time: number, config: SlotConfig): number {
+  return Math.floor((time - config.zeroTime) / config.slotLength) + config.zeroSlot;
+}
+
+/**
+ * Parse a time given as an ISO 8601 date or POSIX milliseconds
+ */
+export function parseTime(value: string | number): number {
+  const time = typeof value === "number" || /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(time)) {
+    throw new Error(`Invalid time "${value}", expected an ISO 8601 date or POSIX milliseconds`);
+  }
+  return time;
+}
+
+/**
+ * Parse a custom slot configuration: { zeroTime, zeroSlot, slotLength }, with
+ * zeroTime in POSIX milliseconds or as an ISO 8601 date (systemStart is
+ * accepted for it), zeroSlot defaulting to 0 and slotLength in milliseconds
+ */
+export function parseSlotConfig(json: unknown): SlotConfig {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("Slot configuration must be a JSON object");
+  }
+  const config = json as { zeroTime?: string | number; systemStart?: string; zeroSlot?: number; slotLength?: number };
+  const start = config.zeroTime ?? config.systemStart;
+  if (start === undefined) {
+    throw new Error("Slot configuration needs zeroTime (or systemStart)");
+  }
+  if (typeof config.slotLength !== "number" || config.slotLength <= 0) {
+    throw new Error("Slot configuration needs a positive slotLength in milliseconds");
+  }
+  return { zeroTime: parseTime(start), zeroSlot: config.zeroSlot ?? 0, slotLength: config.slotLength };
+}
+
+function slotTime(slot: string | null, config: SlotConfig): SlotTime | null {
+  if (slot === null) return null;
+  const posixTime = slotToTime(slot, config);
+  return { slot, posixTime, utc: new Date(posixTime).toISOString() };
+}
+
+/**
+ * Convert a transaction's validity interval to UTC. With a reference time,
+ * also say whether the transaction is valid then: the interval includes its
+ * validity start and excludes its TTL slot.
+ */
+export function describeValidityInterval(
+  tx: Pick<DecodedTransaction, "validityStart" | "ttl">,
+  config: SlotConfig = MAINNET_SLOT_CONFIG,
+  referenceTime?: number,
+): ValidityInterval {
+  const validityStart = slotTime(tx.validityStart, config);
+  const ttl = slotTime(tx.ttl, config);
+  if (referenceTime === undefined) return { validityStart, ttl };
+
+  const status =
+    ttl && referenceTime >= ttl.posixTime
+      ? "expired"
+      : validityStart && referenceTime < validityStart.posixTime
+        ? "notYetValid"
+        : "valid";
+  return { validityStart, ttl, status };
+}
@@ -1,35 +1,282 @@
 export interface DecodedDatum {
   index: number;
   hex: string;
+  /** blake2b-256 of the datum as encoded, as output datum hashes reference it */
+  hash: string;
   json: unknown;
+  /** Decoded with a blueprint type, when one is applied */
+  schema?: SchemaDecoding;
+}
+
+export type RedeemerPurpose = "spend" | "mint" | "cert" | "reward" | "vote" | "propose";
+
+export interface RedeemerTarget {
+  purpose: RedeemerPurpose;
+  /** Spent input (txHash#index), policy id, certificate, reward address, voter or proposal */
+  ref: string;
 }
 
 export interface DecodedRedeemer {
   tag: string;
   index: string;
   dataHex: string;
+  /** blake2b-256 of the redeemer data as encoded */
+  dataHash: string;
   dataJson: unknown;
   exUnits: {
     mem: string;
     steps: string;
   };
+  /** Data decoded with a blueprint type, when one is applied */
+  dataSchema?: SchemaDecoding;
+  /** What the index points at in the body; null if out of range, absent without a body */
+  target?: RedeemerTarget | null;
+}
+
+/** The ScriptContext a redeemer's script receives */
+export interface ScriptContext {
+  /** Position of the redeemer in the witness set */
+  redeemer: number;
+  purpose: RedeemerPurpose;
+  index: string;
+  /** What the redeemer index points at */
+  target: RedeemerTarget | null;
+  /** Script the redeemer runs; null when it names none and a language was given */
+  scriptHash: string | null;
+  language: PlutusLanguage;
+  /** The context as Plutus data, in decodePlutusData's JSON form */
+  json: unknown;
+  /** The context as Plutus data CBOR hex */
+  cbor: string;
+}
+
+export interface DecodedVkeyWitness {
+  publicKey: string;
+  /** blake2b-224 hash of the public key, as listed in required signers */
+  keyHash: string;
+  signature: string;
 }
 
 export interface DecodedWitnessSet {
   plutusData?: DecodedDatum[];
   redeemers?: DecodedRedeemer[];
   plutusScriptHashes?: string[];
+  plutusScripts?: DecodedPlutusScript[];
   nativeScriptCount?: number;
+  nativeScripts?: DecodedNativeScriptWitness[];
   vkeyCount?: number;
+  vkeys?: DecodedVkeyWitness[];
   bootstrapCount?: number;
 }
 
+export interface DecodedPlutusScript {
+  hash: string;
+  language: PlutusLanguage;
+  /** Script size in bytes */
+  size: number;
+  source: "witness" | "reference";
+  /** UTxO holding a reference script */
+  ref?: string;
+}
+
+/**
+ * Native script tree; `after` and `before` are the timelock start (invalid
+ * before the slot) and expiry (invalid from the slot on)
+ */
+export type DecodedNativeScript =
+  | { type: "sig"; keyHash: string }
+  | { type: "all"; scripts: DecodedNativeScript[] }
+  | { type: "any"; scripts: DecodedNativeScript[] }
+  | { type: "atLeast"; required: number; scripts: DecodedNativeScript[] }
+  | { type: "after"; slot: string }
+  | { type: "before"; slot: string };
+
+export interface DecodedNativeScriptWitness {
+  hash: string;
+  script: DecodedNativeScript;
+}
+
 export interface DecodedInput {
   txHash: string;
   index: number;
+  /** Output the input spends or references: null when the UTxO source doesn't have it, absent without one */
+  output?: DecodedOutput | null;
+}
+
+export interface DecodedCredential {
+  type: "key" | "script";
+  hash: string;
+}
+
+export interface DecodedAddress {
+  /** Bech32 address (base58 for Byron addresses) */
+  bech32: string;
+  kind: string;
+  networkId: number;
+  paymentCredential: DecodedCredential | null;
+  stakeCredential: DecodedCredential | null;
+}
+
+export interface DecodedValue {
+  lovelace: string;
+  /** policy id -> asset name (hex) -> quantity */
+  assets: Record<string, Record<string, string>>;
+}
+
+export type DecodedOutputDatum =
+  | {
+      type: "hash";
+      hash: string;
+      /** Index of the witness set datum with this hash; null if the witness set doesn't supply it, absent without one */
+      witnessIndex?: number | null;
+    }
+  | { type: "inline"; hex: string; hash: string; json: unknown; schema?: SchemaDecoding };
+
+export interface DecodedScriptRef {
+  hash: string;
+  language: string;
+  /** Script size in bytes */
+  size: number;
+}
+
+/** CIP-68 metadata held in the inline datum of a (100) reference token output */
+export interface DecodedCip68Metadata {
+  policyId: string;
+  /** Reference token name (hex, with the 000643b0 label prefix) */
+  assetName: string;
+  metadata: Record<string, unknown>;
+  version: number;
+}
+
+export interface DecodedOutput {
+  index: number;
+  address: DecodedAddress;
+  value: DecodedValue;
+  datum: DecodedOutputDatum | null;
+  referenceScript: DecodedScriptRef | null;
+  cip68?: DecodedCip68Metadata;
+}
+
+export interface DecodedAnchor {
+  url: string;
+  dataHash: string;
+}
+
+export interface DecodedCertificate {
+  index: number;
+  kind: string;
+  /** Stake, DRep or committee cold credential the certificate acts on */
+  credential?: DecodedCredential;
+  /** Committee hot credential being authorized */
+  hotCredential?: DecodedCredential;
+  poolKeyHash?: string;
+  /** Vote delegation target: a credential, "AlwaysAbstain" or "AlwaysNoConfidence" */
+  drep?: string;
+  deposit?: string;
+  epoch?: number;
+  anchor?: DecodedAnchor;
+}
+
+export interface DecodedWithdrawal {
+  rewardAddress: string;
+  credential: DecodedCredential;
+  amount: string;
+}
+
+export interface DecodedVoter {
+  kind: string;
+  hash: string;
+}
+
+export interface DecodedVote {
+  voter: DecodedVoter;
+  /** Governance action id as txHash#index */
+  actionId: string;
+  vote: string;
+  anchor?: DecodedAnchor;
+}
+
+export interface DecodedProposal {
+  index: number;
+  kind: string;
+  deposit: string;
+  rewardAddress: string;
+  anchor: DecodedAnchor;
+}
+
+export interface DecodedUtxo extends DecodedOutput {
+  txHash: string;
+  /** Output CBOR hex, as stored in the ledger */
+  cbor: string;
+}
+
+/** Source of the outputs that transaction inputs spend or reference */
+export interface UtxoProvider {
+  /** Outputs of the given inputs; inputs the source doesn't know are left out */
+  getUtxos(inputs: DecodedInput[]): DecodedUtxo[] | Promise<DecodedUtxo[]>;
+}
+
+/** Value an address spends and receives in a transaction */
+export interface AddressBalance {
+  address: string;
+  /** Total of the spent inputs at the address */
+  spent: DecodedValue;
+  /** Total of the outputs to the address */
+  received: DecodedValue;
+  /** received - spent, negative where the address pays */
+  net: DecodedValue;
+}
+
+export interface DecodedMintAsset {
+  /** Asset name as hex, like value asset names */
+  assetName: string;
+  /** Asset name as UTF-8 (after any CIP-67 label), when printable */
+  name: string | null;
+  /** CIP-67 label, e.g. 100 (reference NFT) or 222 (user NFT) */
+  label: number | null;
+  /** Signed quantity: negative when burning */
+  quantity: string;
+}
+
+/**
+ * Where a minting policy script comes from. Scripts from reference inputs
+ * are only known with a UTxO set.
+ */
+export type MintScriptSource =
+  | { source: "witness"; language: string }
+  | { source: "reference"; language: string; ref: string };
+
+export interface DecodedMint {
+  policyId: string;
+  assets: DecodedMintAsset[];
+  /** null when not in the witness set (nor a resolved reference input) */
+  script: MintScriptSource | null;
+  /** Index of the policy's mint redeemer, for Plutus policies */
+  redeemerIndex: string | null;
+}
+
+/** CIP-25 metadata of one asset */
+export interface DecodedNftMetadata {
+  policyId: string;
+  /** Asset name as hex, like value asset names */
+  assetName: string;
+  metadata: unknown;
+}
+
+export interface DecodedAuxiliaryData {
+  /** blake2b-256 of the auxiliary data as encoded in the transaction */
+  hash: string;
+  /** Metadata keyed by label; byte strings as "0x..." hex */
+  metadata: Record<string, unknown>;
+  /** CIP-20 messages (label 674) */
+  messages?: string[];
+  /** CIP-25 NFT metadata (label 721) */
+  nfts?: DecodedNftMetadata[];
 }
 
 export interface DecodedTransaction {
+  /** Transaction id: blake2b-256 of the body as encoded */
+  txHash: string;
   scriptDataHash: string | null;
   inputCount: number;
   outputCount: number;
@@ -39,11 +286,448 @@ export interface DecodedTransaction {
   requiredSigners: string[];
   witnessSet: DecodedWitnessSet;
   inputs: DecodedInput[];
+  outputs: DecodedOutput[];
+  /** Inputs forfeited if a script fails */
+  collateral: DecodedInput[];
+  /** Output that receives the collateral minus total collateral if a script fails */
+  collateralReturn: DecodedOutput | null;
+  totalCollateral: string | null;
+  /** Inputs whose outputs scripts can see and whose reference scripts can run, without spending them */
+  referenceInputs: DecodedInput[];
+  mint: DecodedMint[];
+  certificates: DecodedCertificate[];
+  withdrawals: DecodedWithdrawal[];
+  votes: DecodedVote[];
+  proposals: DecodedProposal[];
+  currentTreasuryValue: string | null;
+  donation: string | null;
+  /** Plutus reference scripts of the spent and reference inputs; only known with a UTxO set */
+  referenceScripts?: DecodedPlutusScript[];
+  /** Auxiliary data hash declared in the body */
+  auxiliaryDataHash: string | null;
+  auxiliaryData: DecodedAuxiliaryData | null;
+}
+
+export type DifferenceSection =
+  | "scriptDataHash"
+  | "inputs"
+  | "outputs"
+  | "fee"
+  | "collateral"
+  | "collateralReturn"
+  | "totalCollateral"
+  | "referenceInputs"
+  | "plutusData"
+  | "redeemers"
+  | "plutusScripts"
+  | "certificates"
+  | "withdrawals"
+  | "votes"
+  | "proposals"
+  | "currentTreasuryValue"
+  | "donation"
+  | "mint"
+  | "auxiliaryDataHash"
+  | "metadata";
+
+/** added/removed: only in TX2/TX1; reordered: same item at another position */
+export type DifferenceKind = "added" | "removed" | "changed" | "reordered";
+
+/**
+ * error: changes the script data hash, redeemer indices or scripts run;
+ * warning: other body fields; info: same item at another position
+ */
+export type DifferenceSeverity = "error" | "warning" | "info";
+
+export interface Difference {
+  section: DifferenceSection;
+  /** Location of the difference, e.g. "plutusData[0].fields[1].bytes" or "withdrawals[stake1...]" */
+  path: string;
+  kind: DifferenceKind;
+  severity: DifferenceSeverity;
+  /** Value in TX1 (position in TX1 for reordered items); absent when added */
+  oldValue?: unknown;
+  /** Value in TX2 (position in TX2 for reordered items); absent when removed */
+  newValue?: unknown;
+}
+
+/** Expected variance to leave out of a comparison, e.g. loaded from a config file */
+export interface ComparisonPolicy {
+  /**
+   * Paths whose differences (and those under them) are suppressed; "*" matches
+   * any characters, e.g. "outputs[*].value.lovelace" or "metadata"
+   */
+  ignore?: string[];
+  /** Changes of at most this percentage of TX1's amount are suppressed */
+  tolerance?: { fee?: number; exUnits?: number };
+  /** Severity of reordered spend inputs (default: error) */
+  inputReordering?: DifferenceSeverity;
+}
+
+export interface SuppressedDifference extends Difference {
+  /** Policy rule that suppressed it, e.g. 'ignored by "metadata"' */
+  reason: string;
+}
+
+export interface CompareOptions {
+  /** Pair datums by hash, redeemers by (tag, index) and scripts by hash instead of by position */
+  matchByContent?: boolean;
+  policy?: ComparisonPolicy;
 }
 
 export interface ComparisonResult {
   scriptDataHashMatch: boolean;
   inputOrderMatch: boolean;
-  witnessSetDifferences: string[];
-  inputDifferences: string[];
+  /** Differences the policy reports (all of them without a policy) */
+  differences: Difference[];
+  /** Differences the policy ignores or tolerates */
+  suppressed: SuppressedDifference[];
+}
+
+/** Transactions of the same file name in two directories */
+export interface PairComparison {
+  name: string;
+  /** No differences other than info ones, such as items at another position; warnings fail a pair too */
+  passed: boolean;
+  /** Why one of the two files could not be read or decoded */
+  error?: string;
+  comparison?: ComparisonResult;
+}
+
+export interface DifferenceCategory {
+  section: DifferenceSection;
+  kind: DifferenceKind;
+  /** Differences of this section and kind across the failing pairs */
+  count: number;
+  /** Failing pairs with at least one of them */
+  pairs: number;
+}
+
+export interface DirectoryComparison {
+  dir1: string;
+  dir2: string;
+  pairs: PairComparison[];
+  /** Files without a file of the same name in the other directory */
+  onlyInDir1: string[];
+  onlyInDir2: string[];
+  passed: number;
+  /** Pairs with differences or a file that doesn't decode */
+  failed: number;
+  /** Most common first */
+  categories: DifferenceCategory[];
+}
+
+/** total_collateral against the collateral inputs resolved from a UTxO set */
+export interface CollateralCheck {
+  /** Lovelace of the collateral inputs; null if some are not in the UTxO set */
+  inputs: string | null;
+  /** Lovelace sent to the collateral return */
+  returned: string;
+  /** Lovelace forfeited if a script fails: inputs minus return */
+  forfeited: string | null;
+  declared: string | null;
+  /** Whether the declared total matches; null without a declared total or resolved inputs */
+  consistent: boolean | null;
+  /** Collateral inputs missing from the UTxO set */
+  missing: string[];
+}
+
+/** Where one transaction's bytes diverge from the other's */
+export interface EncodingDivergence {
+  /** Path of the innermost CBOR item containing the byte, e.g. "witnessSet.redeemers" */
+  path: string;
+  /** That item's structure, e.g. "indefinite-length array of 2 items" */
+  structure: string;
+  /** The diverging byte, as hex */
+  byte: string;
+}
+
+/** First byte at which two transaction encodings differ */
+export interface EncodingDifference {
+  offset: number;
+  tx1: EncodingDivergence;
+  tx2: EncodingDivergence;
+}
+
+export type PlutusLanguage = "PlutusV1" | "PlutusV2" | "PlutusV3";
+
+/** Cost model parameters per Plutus language, in ledger order */
+export type CostModels = Partial<Record<PlutusLanguage, number[]>>;
+
+export interface ProtocolParameters {
+  costModels: CostModels;
+  /** Linear fee coefficient (lovelace per byte) */
+  minFeeA?: number;
+  /** Linear fee constant (lovelace) */
+  minFeeB?: number;
+  maxTxSize?: number;
+  coinsPerUtxoByte?: number;
+  collateralPercentage?: number;
+  maxCollateralInputs?: number;
+  keyDeposit?: number;
+  poolDeposit?: number;
+  drepDeposit?: number;
+  govActionDeposit?: number;
+  /** Lovelace per unit of memory */
+  priceMem?: number;
+  /** Lovelace per CPU step */
+  priceSteps?: number;
+  /** Base price per byte of reference scripts (Conway) */
+  minFeeRefScriptCostPerByte?: number;
+  maxTxExMem?: number;
+  maxTxExSteps?: number;
+}
+
+export type ScriptDataComponent = "redeemers" | "datums" | "languageViews";
+
+export interface ScriptDataHashVerification {
+  /** Hash declared in the transaction body */
+  declared: string | null;
+  /** Hash recomputed from the witness set and cost models */
+  computed: string | null;
+  match: boolean;
+  languages: PlutusLanguage[];
+  redeemersHex: string | null;
+  datumsHex: string | null;
+  /** Component that accounts for a mismatch, "unknown" if none could be isolated */
+  mismatch: ScriptDataComponent | "unknown" | null;
+  explanation: string | null;
+}
+
+export interface MinFeeBreakdown {
+  /** minFeeA * size + minFeeB */
+  linear: number;
+  /** Execution unit prices applied to the declared redeemer budgets */
+  scripts: number;
+  /** Tiered Conway fee for reference scripts */
+  referenceScripts: number;
+  total: number;
+}
+
+export type WitnessSetSection =
+  | "vkeys"
+  | "nativeScripts"
+  | "bootstraps"
+  | "plutusV1Scripts"
+  | "plutusData"
+  | "redeemers"
+  | "plutusV2Scripts"
+  | "plutusV3Scripts";
+
+/** Serialized sizes in bytes */
+export interface SizeBreakdown {
+  total: number;
+  body: number;
+  witnessSet: number;
+  /** Each witness set entry, key included */
+  witnessSetSections: Partial<Record<WitnessSetSection, number>>;
+  auxiliaryData: number;
+  /** Scripts referenced from spent and reference inputs; null without a UTxO set */
+  referenceScripts: number | null;
+}
+
+export interface FeeAnalysis {
+  fee: string;
+  size: SizeBreakdown;
+  /** null when it can't be computed; `unavailable` says why */
+  minFee: MinFeeBreakdown | null;
+  /** fee - minFee.total: positive when overpaid, negative when underpaid */
+  difference: number | null;
+  unavailable: string | null;
+}
+
+export type ValidationRule =
+  | "missingInput"
+  | "valuePreservation"
+  | "minFee"
+  | "minAda"
+  | "maxTxSize"
+  | "collateral"
+  | "missingSigner"
+  | "invalidSignature"
+  | "missingScript"
+  | "missingDatum"
+  | "validityInterval";
+
+export interface ValidationViolation {
+  rule: ValidationRule;
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  violations: ValidationViolation[];
+  /** Checks that could not run, with the reason */
+  skipped: string[];
+}
+
+export interface VkeyWitnessCheck extends DecodedVkeyWitness {
+  /** Signature verifies against the transaction body hash */
+  valid: boolean;
+}
+
+/** What a native script is evaluated against */
+export interface NativeScriptContext {
+  /** Key hashes with a valid vkey witness */
+  signers: string[];
+  validityStart: string | null;
+  ttl: string | null;
+}
+
+export interface NativeScriptEvaluation {
+  /** "$" for the root, "$[i]" for the i-th sub-script */
+  path: string;
+  type: DecodedNativeScript["type"];
+  satisfied: boolean;
+  /** Why the node is (not) satisfied */
+  reason: string;
+  children?: NativeScriptEvaluation[];
+}
+
+export interface NativeScriptCheck {
+  hash: string;
+  satisfied: boolean;
+  evaluation: NativeScriptEvaluation;
+}
+
+export interface SignatureVerification {
+  bodyHash: string;
+  witnesses: VkeyWitnessCheck[];
+  /** Required signers with a valid witness */
+  satisfied: string[];
+  /** Required signers without a valid witness */
+  missing: string[];
+  /** Valid witnesses that are not required signers (key inputs, withdrawals, certificates) */
+  extra: string[];
+  /** Witnesses whose signature does not verify against the body hash */
+  invalid: string[];
+}
+
+export interface AssembledTransaction {
+  /** Signed transaction CBOR hex, with the body bytes unchanged */
+  txHex: string;
+  txId: string;
+  /** Vkey witnesses merged into the witness set */
+  added: DecodedVkeyWitness[];
+  /** Key hashes of witnesses the transaction already had or that were given more than once */
+  duplicates: string[];
+  /** Required signers still without a witness */
+  missing: string[];
+}
+
+/**
+ * UPLC term from the flat encoding. Variables are de Bruijn indices;
+ * constants keep their UPLC type and value syntax.
+ */
+export type UplcTerm =
+  | { type: "var"; index: number }
+  | { type: "delay"; term: UplcTerm }
+  | { type: "lam"; body: UplcTerm }
+  | { type: "apply"; fn: UplcTerm; arg: UplcTerm }
+  | { type: "con"; valueType: string; value: string }
+  | { type: "force"; term: UplcTerm }
+  | { type: "error" }
+  | { type: "builtin"; name: string }
+  | { type: "constr"; tag: string; fields: UplcTerm[] }
+  | { type: "case"; scrutinee: UplcTerm; branches: UplcTerm[] };
+
+export interface UplcProgram {
+  /** e.g. "1.0.0" (Plutus V1/V2) or "1.1.0" (V3) */
+  version: string;
+  term: UplcTerm;
+}
+
+/** CIP-57 data schema (the parts used for decoding) */
+export interface BlueprintSchema {
+  title?: string;
+  description?: string;
+  $ref?: string;
+  dataType?: string;
+  anyOf?: BlueprintSchema[];
+  index?: number;
+  fields?: BlueprintSchema[];
+  items?: BlueprintSchema | BlueprintSchema[];
+  keys?: BlueprintSchema;
+  values?: BlueprintSchema;
+}
+
+export interface BlueprintValidator {
+  title: string;
+  datum?: { title?: string; schema: BlueprintSchema };
+  redeemer?: { title?: string; schema: BlueprintSchema };
+  compiledCode?: string;
+  hash?: string;
+}
+
+/** CIP-57 plutus.json, as produced by Aiken and other compilers */
+export interface Blueprint {
+  preamble?: { title?: string; version?: string; plutusVersion?: string };
+  validators: BlueprintValidator[];
+  definitions: Record<string, BlueprintSchema>;
+}
+
+export interface SchemaMismatch {
+  /** Location in the decoded value, e.g. "$.Listing.price" */
+  path: string;
+  message: string;
+}
+
+export interface SchemaDecoding {
+  /** Validator title or definition name the data was decoded as */
+  type: string;
+  /** Data with constructor and field names; raw DetailedSchema JSON where it does not match */
+  value: unknown;
+  errors: SchemaMismatch[];
+}
+
+/** Conversion between slots and POSIX time (milliseconds) */
+export interface SlotConfig {
+  zeroTime: number;
+  zeroSlot: number;
+  slotLength: number;
+}
+
+export type NetworkName = "mainnet" | "preprod" | "preview";
+
+/** A slot and the POSIX time (milliseconds) it starts at */
+export interface SlotTime {
+  slot: string;
+  posixTime: number;
+  /** ISO 8601 UTC */
+  utc: string;
+}
+
+export interface ValidityInterval {
+  validityStart: SlotTime | null;
+  ttl: SlotTime | null;
+  /** Relative to the reference time, when one was given */
+  status?: "valid" | "expired" | "notYetValid";
+}
+
+export interface ExUnitsBudget {
+  mem: string;
+  steps: string;
+}
+
+export interface RedeemerEvaluation {
+  purpose: RedeemerPurpose;
+  index: string;
+  /** What the redeemer index points at; null if out of range */
+  target: RedeemerTarget | null;
+  declared: ExUnitsBudget;
+  /** Budget the script used; null if it failed or was not evaluated */
+  required: ExUnitsBudget | null;
+  /** declared - required; negative when the declared budget is too small */
+  delta: ExUnitsBudget | null;
+  /** Trace output of a failing script; the evaluator returns none for scripts that succeed */
+  logs: string[];
+  error: string | null;
+}
+
+export interface TransactionEvaluation {
+  /** Every script succeeded within its declared budget */
+  success: boolean;
+  redeemers: RedeemerEvaluation[];
+  /** Failure not attributable to a single redeemer */
+  error: string | null;
 }
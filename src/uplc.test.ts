@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { decodeUplcProgram, disassembleScript } from "./uplc.js";
+
+/** Flat bits to hex; "|" is filler up to the next byte boundary (zeros then a one) */
+function flat(...parts: string[]): string {
+  let bits = "";
+  for (const part of [...parts, "|"]) {
+    bits += part === "|" ? "1".padStart(8 - (bits.length % 8), "0") : part.replace(/ /g, "");
+  }
+  return bits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2).toString(16).padStart(2, "0")).join("");
+}
+
+// Plutus V2 scripts as stored in a witness set: flat wrapped in two CBOR byte strings
+const ALWAYS_SUCCEEDS = "4948" + "0100002221200101";
+const TRACE_BOOM = "5352" + "0100002225335738920104626f6f6d001601";
+
+describe("decodeUplcProgram", () => {
+  it("unwraps the CBOR byte strings and reads version and term", () => {
+    const program = decodeUplcProgram(ALWAYS_SUCCEEDS);
+
+    expect(program.version).toBe("1.0.0");
+    expect(program.term).toMatchObject({ type: "lam", body: { type: "lam", body: { type: "lam" } } });
+    expect(decodeUplcProgram("0100002221200101")).toEqual(program);
+  });
+
+  it("decodes builtins and negative integers", () => {
+    // [(builtin addInteger) (con integer -3)]
+    const program = decodeUplcProgram(flat("00000001 00000000 00000000", "0011", "0111 0000000", "0100 1 0000 0", "00000101"));
+
+    expect(program.term).toEqual({
+      type: "apply",
+      fn: { type: "builtin", name: "addInteger" },
+      arg: { type: "con", valueType: "integer", value: "-3" },
+    });
+  });
+});
+
+describe("disassembleScript", () => {
+  it("pretty-prints with variables named after their binders", () => {
+    expect(disassembleScript(ALWAYS_SUCCEEDS)).toBe(
+      "(program 1.0.0\n  (lam i_0 (lam i_1 (lam i_2 (delay (lam i_3 i_3))))))",
+    );
+    expect(disassembleScript(TRACE_BOOM)).toBe(
+      [
+        "(program 1.0.0",
+        "  (lam i_0",
+        "    (lam i_1",
+        "      (lam i_2",
+        "        (force",
+        '          [[(force (builtin trace)) (con string "boom")] (delay (error))])))))',
+      ].join("\n"),
+    );
+  });
+
+  it("prints bytestring, data, list and pair constants in a V3 constr", () => {
+    const script = flat(
+      "00000001 00000001 00000000",
+      "1000 00000001",
+      // (con bytestring #ab)
+      "1 0100 1 0001 0",
+      "|",
+      "00000001 10101011 00000000",
+      // (con data (Constr 0 [I 5]))
+      "1 0100 1 1000 0",
+      "|",
+      "00000100 11011000 01111001 10000001 00000101 00000000",
+      // (con (list (pair integer bool)) [(1, True)])
+      "1 0100 1 0111 1 0101 1 0111 1 0111 1 0110 1 0000 1 0100 0",
+      "1 00000010 1 0",
+      "0",
+    );
+
+    expect(disassembleScript(script)).toBe(
+      [
+        "(program 1.1.0",
+        "  (constr 1",
+        "    (con bytestring #ab)",
+        "    (con data (Constr 0 [I 5]))",
+        "    (con (list (pair integer bool)) [(1, True)])))",
+      ].join("\n"),
+    );
+  });
+
+  it("rejects truncated programs", () => {
+    expect(() => disassembleScript("010000")).toThrow("Unexpected end of flat program");
+  });
+});
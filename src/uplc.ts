@@ -0,0 +1,318 @@
+/**
+ * Decoder and pretty-printer for flat-encoded UPLC programs, the format
+ * Plutus scripts are stored in.
+ */
+
+import { decodeCbor, type CborNode } from "./cbor.js";
+import type { UplcProgram, UplcTerm } from "./types.js";
+
+/** Builtin functions by flat tag */
+const BUILTINS = [
+  "addInteger", "subtractInteger", "multiplyInteger", "divideInteger", "quotientInteger", "remainderInteger",
+  "modInteger", "equalsInteger", "lessThanInteger", "lessThanEqualsInteger", "appendByteString", "consByteString",
+  "sliceByteString", "lengthOfByteString", "indexByteString", "equalsByteString", "lessThanByteString",
+  "lessThanEqualsByteString", "sha2_256", "sha3_256", "blake2b_256", "verifyEd25519Signature", "appendString",
+  "equalsString", "encodeUtf8", "decodeUtf8", "ifThenElse", "chooseUnit", "trace", "fstPair", "sndPair",
+  "chooseList", "mkCons", "headList", "tailList", "nullList", "chooseData", "constrData", "mapData", "listData",
+  "iData", "bData", "unConstrData", "unMapData", "unListData", "unIData", "unBData", "equalsData", "mkPairData",
+  "mkNilData", "mkNilPairData", "serialiseData", "verifyEcdsaSecp256k1Signature", "verifySchnorrSecp256k1Signature",
+  "bls12_381_G1_add", "bls12_381_G1_neg", "bls12_381_G1_scalarMul", "bls12_381_G1_equal", "bls12_381_G1_hashToGroup",
+  "bls12_381_G1_compress", "bls12_381_G1_uncompress", "bls12_381_G2_add", "bls12_381_G2_neg",
+  "bls12_381_G2_scalarMul", "bls12_381_G2_equal", "bls12_381_G2_hashToGroup", "bls12_381_G2_compress",
+  "bls12_381_G2_uncompress", "bls12_381_millerLoop", "bls12_381_mulMlResult", "bls12_381_finalVerify",
+  "keccak_256", "blake2b_224", "integerToByteString", "byteStringToInteger", "andByteString", "orByteString",
+  "xorByteString", "complementByteString", "readBit", "writeBits", "replicateByte", "shiftByteString",
+  "rotateByteString", "countSetBits", "findFirstSetBit", "ripemd_160",
+];
+
+/** Constant types by flat tag; 7 applies list (5) or pair (6) to its arguments */
+const CONSTANT_TYPES: Record<number, string> = {
+  0: "integer",
+  1: "bytestring",
+  2: "string",
+  3: "unit",
+  4: "bool",
+  8: "data",
+  9: "bls12_381_G1_element",
+  10: "bls12_381_G2_element",
+};
+
+type ConstantType = { name: string } | { list: ConstantType } | { pair: [ConstantType, ConstantType] };
+
+/** Lines wider than this are broken up */
+const LINE_WIDTH = 80;
+
+class FlatReader {
+  private pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  bit(): boolean {
+    const byte = this.pos >> 3;
+    if (byte >= this.bytes.length) {
+      throw new Error(`Unexpected end of flat program at byte ${byte}`);
+    }
+    const bit = (this.bytes[byte] >> (7 - (this.pos & 7))) & 1;
+    this.pos++;
+    return bit === 1;
+  }
+
+  bits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) value = (value << 1) | (this.bit() ? 1 : 0);
+    return value;
+  }
+
+  /** Little-endian groups of 7 bits, each preceded by a "more follows" bit */
+  natural(): bigint {
+    let value = 0n;
+    let shift = 0n;
+    for (;;) {
+      const group = this.bits(8);
+      value |= BigInt(group & 0x7f) << shift;
+      shift += 7n;
+      if (!(group & 0x80)) return value;
+    }
+  }
+
+  /** Zigzag-encoded natural */
+  integer(): bigint {
+    const n = this.natural();
+    return n % 2n === 0n ? n / 2n : -(n + 1n) / 2n;
+  }
+
+  list<T>(item: () => T): T[] {
+    const items: T[] = [];
+    while (this.bit()) items.push(item());
+    return items;
+  }
+
+  /** Filler (zeros then a one) up to a byte boundary, then chunks of up to 255 bytes */
+  bytestring(): Uint8Array {
+    while (!this.bit());
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      const length = this.bits(8);
+      if (length === 0) return Buffer.concat(chunks);
+      const start = this.pos >> 3;
+      if (start + length > this.bytes.length) {
+        throw new Error(`Unexpected end of flat program at byte ${start}`);
+      }
+      chunks.push(this.bytes.subarray(start, start + length));
+      this.pos += length * 8;
+    }
+  }
+}
+
+function formatType(type: ConstantType): string {
+  if ("name" in type) return type.name;
+  if ("list" in type) return `(list ${formatType(type.list)})`;
+  return `(pair ${formatType(type.pair[0])} ${formatType(type.pair[1])})`;
+}
+
+function parseType(tags: number[]): ConstantType {
+  const tag = tags.shift();
+  if (tag === 7) {
+    const applied = tags.shift();
+    if (applied === 5) return { list: parseType(tags) };
+    if (applied === 7 && tags.shift() === 6) return { pair: [parseType(tags), parseType(tags)] };
+    throw new Error("Unsupported constant type application");
+  }
+  const name = tag === undefined ? undefined : CONSTANT_TYPES[tag];
+  if (!name) throw new Error(`Unknown constant type tag ${tag}`);
+  return { name };
+}
+
+/**
+ * Render plutus data CBOR in UPLC's data constant syntax
+ */
+function formatData(node: CborNode): string {
+  switch (node.type) {
+    case "uint":
+    case "nint":
+      return `I ${node.value}`;
+    case "bytes":
+      return `B #${Buffer.from(node.value).toString("hex")}`;
+    case "array":
+      return `List [${node.items.map(formatData).join(", ")}]`;
+    case "map":
+      return `Map [${node.entries.map(([k, v]) => `(${formatData(k)}, ${formatData(v)})`).join(", ")}]`;
+    case "tag": {
+      const tag = Number(node.tag);
+      // Constructors 0-6 are tags 121-127, 7-127 are 1280-1400, others tag 102 [index, fields]
+      if (tag === 2 || tag === 3) {
+        const magnitude = BigInt("0x" + (Buffer.from((node.item as { value: Uint8Array }).value).toString("hex") || "0"));
+        return `I ${tag === 2 ? magnitude : -1n - magnitude}`;
+      }
+      const fields = node.item.type === "array" ? node.item.items : [];
+      if (tag >= 121 && tag <= 127) return `Constr ${tag - 121} [${fields.map(formatData).join(", ")}]`;
+      if (tag >= 1280 && tag <= 1400) return `Constr ${tag - 1280 + 7} [${fields.map(formatData).join(", ")}]`;
+      if (tag === 102 && fields[0]?.type === "uint" && fields[1]?.type === "array") {
+        return `Constr ${fields[0].value} [${fields[1].items.map(formatData).join(", ")}]`;
+      }
+      throw new Error(`Invalid plutus data tag ${tag}`);
+    }
+    default:
+      throw new Error(`Invalid plutus data of type ${node.type}`);
+  }
+}
+
+function readConstant(reader: FlatReader, type: ConstantType): string {
+  if ("list" in type) {
+    const items = reader.list(() => readConstant(reader, type.list));
+    return `[${items.join(", ")}]`;
+  }
+  if ("pair" in type) {
+    return `(${readConstant(reader, type.pair[0])}, ${readConstant(reader, type.pair[1])})`;
+  }
+  switch (type.name) {
+    case "integer":
+      return reader.integer().toString();
+    case "string":
+      return JSON.stringify(Buffer.from(reader.bytestring()).toString("utf-8"));
+    case "unit":
+      return "()";
+    case "bool":
+      return reader.bit() ? "True" : "False";
+    case "data":
+      return `(${formatData(decodeCbor(reader.bytestring()))})`;
+    default:
+      // Byte strings and BLS points (compressed)
+      return "#" + Buffer.from(reader.bytestring()).toString("hex");
+  }
+}
+
+function readTerm(reader: FlatReader): UplcTerm {
+  const tag = reader.bits(4);
+  switch (tag) {
+    case 0:
+      return { type: "var", index: Number(reader.natural()) };
+    case 1:
+      return { type: "delay", term: readTerm(reader) };
+    case 2:
+      return { type: "lam", body: readTerm(reader) };
+    case 3:
+      return { type: "apply", fn: readTerm(reader), arg: readTerm(reader) };
+    case 4: {
+      const valueType = parseType(reader.list(() => reader.bits(4)));
+      return { type: "con", valueType: formatType(valueType), value: readConstant(reader, valueType) };
+    }
+    case 5:
+      return { type: "force", term: readTerm(reader) };
+    case 6:
+      return { type: "error" };
+    case 7: {
+      const builtin = reader.bits(7);
+      return { type: "builtin", name: BUILTINS[builtin] ?? `builtin${builtin}` };
+    }
+    case 8:
+      return { type: "constr", tag: reader.natural().toString(), fields: reader.list(() => readTerm(reader)) };
+    case 9:
+      return { type: "case", scrutinee: readTerm(reader), branches: reader.list(() => readTerm(reader)) };
+    default:
+      throw new Error(`Unknown UPLC term tag ${tag}`);
+  }
+}
+
+/**
+ * Strip the CBOR byte string wrappers scripts are stored in (once in
+ * reference scripts, twice in most witness sets) down to the flat program
+ */
+function unwrapScript(bytes: Uint8Array): Uint8Array {
+  let current = bytes;
+  // A flat program starts with its version (1.x.0), never a CBOR byte string header
+  while (current.length > 0 && current[0] >> 5 === 2) {
+    let node: CborNode;
+    try {
+      node = decodeCbor(current);
+    } catch {
+      break;
+    }
+    if (node.type !== "bytes") break;
+    current = node.value;
+  }
+  return current;
+}
+
+/**
+ * Decode a Plutus script (flat, or CBOR-wrapped as in transactions) into its UPLC program
+ */
+export function decodeUplcProgram(scriptHex: string): UplcProgram {
+  const reader = new FlatReader(unwrapScript(Buffer.from(scriptHex, "hex")));
+  const version = [reader.natural(), reader.natural(), reader.natural()].join(".");
+  return { version, term: readTerm(reader) };
+}
+
+/** Term as [head, children, closing bracket]; leaves have no children */
+function layout(term: UplcTerm, depth: number): [string, Array<[UplcTerm, number]>, string] {
+  switch (term.type) {
+    case "var":
+      return [`i_${depth - term.index}`, [], ""];
+    case "lam":
+      return [`(lam i_${depth}`, [[term.body, depth + 1]], ")"];
+    case "apply":
+      return ["[", [[term.fn, depth], [term.arg, depth]], "]"];
+    case "delay":
+    case "force":
+      return [`(${term.type}`, [[term.term, depth]], ")"];
+    case "con":
+      return [`(con ${term.valueType} ${term.value})`, [], ""];
+    case "error":
+      return ["(error)", [], ""];
+    case "builtin":
+      return [`(builtin ${term.name})`, [], ""];
+    case "constr":
+      return [`(constr ${term.tag}`, term.fields.map((field) => [field, depth]), ")"];
+    case "case":
+      return ["(case", [term.scrutinee, ...term.branches].map((branch) => [branch, depth]), ")"];
+  }
+}
+
+/**
+ * Pretty-print a program in the textual UPLC syntax, naming each variable
+ * after the depth of its binder (i_0 for the outermost lambda)
+ */
+export function formatUplcProgram(program: UplcProgram): string {
+  const widths = new Map<UplcTerm, number>();
+  // Width of the one-line rendering, capped once it can't fit anyway
+  const width = (term: UplcTerm, depth: number): number => {
+    const known = widths.get(term);
+    if (known !== undefined) return known;
+    const [head, children, close] = layout(term, depth);
+    let total = head.length + close.length;
+    for (const [child, childDepth] of children) {
+      if (total > LINE_WIDTH) break;
+      total += 1 + width(child, childDepth);
+    }
+    widths.set(term, total);
+    return total;
+  };
+  const inline = (term: UplcTerm, depth: number): string => {
+    const [head, children, close] = layout(term, depth);
+    if (children.length === 0) return head;
+    const separator = head === "[" ? "" : " ";
+    return head + separator + children.map(([child, d]) => inline(child, d)).join(" ") + close;
+  };
+
+  const lines: string[] = [];
+  const print = (term: UplcTerm, depth: number, indent: string) => {
+    if (indent.length + width(term, depth) <= LINE_WIDTH) {
+      lines.push(indent + inline(term, depth));
+      return;
+    }
+    const [head, children, close] = layout(term, depth);
+    lines.push(indent + head);
+    children.forEach(([child, childDepth]) => print(child, childDepth, indent + "  "));
+    lines[lines.length - 1] += close;
+  };
+
+  print(program.term, 0, "  ");
+  return `(program ${program.version}\n${lines.join("\n")})`;
+}
+
+/**
+ * Disassemble a Plutus script to textual UPLC
+ */
+export function disassembleScript(scriptHex: string): string {
+  return formatUplcProgram(decodeUplcProgram(scriptHex));
+}
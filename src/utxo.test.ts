@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { createUtxoProvider, fetchUtxos, parseUtxos, resolveInputs } from "./utxo.js";
+import { decodeTransaction } from "./decoder.js";
+import { SAMPLE_TX_HEX } from "./test-fixtures.js";
+import type { DecodedInput } from "./types.js";
+
+const TX_HASH = "08c49c049c49a665cbb83644b22662af7125a8ecd365a616b82388a1a7bb5510";
+const ADDRESS = "addr1q8ydyk6uw6cehk5u3zspyz3dhnwzmhfls2fp42vv5dv9g2z3885pg4kpkn30ptezc855lu3w5ey93zcr5lrezjmwkftqt3mvyx";
+const POLICY = "3373f1171594fc4be7f7e3a099252cd085a9734a5dfe4732e2311921";
+const DATUM = "d8799f4100ff";
+// PlutusV2 script 3a888d65..., wrapped once in a CBOR byte string
+const SCRIPT = "480100002221200101";
+
+// The same output as cardano-cli, Kupo and Ogmios print it
+const CLI_UTXOS = {
+  [`${TX_HASH}#1`]: {
+    address: ADDRESS,
+    value: { lovelace: 2000000, [POLICY]: { "576f6e6465724d696c6b303935": 1, "": 5 } },
+    inlineDatumRaw: DATUM,
+    referenceScript: { script: { type: "PlutusScriptV2", cborHex: `49${SCRIPT}` } },
+  },
+};
+
+const KUPO_MATCHES = [
+  {
+    transaction_index: 0,
+    transaction_id: TX_HASH,
+    output_index: 1,
+    address: ADDRESS,
+    value: { coins: 2000000, assets: { [`${POLICY}.576f6e6465724d696c6b303935`]: 1, [POLICY]: 5 } },
+    datum_hash: "923918e403bf43c34b4ef6b48eb2ee04babed17320d8d1b9ff9ad086e86f44ec",
+    datum_type: "inline",
+    datum: DATUM,
+    script_hash: "3a888d65f16790950a72daee1f63aa05add6d268434107cfa5b67712",
+    script: { language: "plutus:v2", script: SCRIPT },
+    created_at: { slot_no: 1, header_hash: "00" },
+    spent_at: null,
+  },
+];
+
+const OGMIOS_RESPONSE = {
+  jsonrpc: "2.0",
+  method: "queryLedgerState/utxo",
+  result: [
+    {
+      transaction: { id: TX_HASH },
+      index: 1,
+      address: ADDRESS,
+      value: { ada: { lovelace: 2000000 }, [POLICY]: { "576f6e6465724d696c6b303935": 1, "": 5 } },
+      datum: DATUM,
+      script: { language: "plutus:v2", cbor: SCRIPT },
+    },
+  ],
+};
+
+describe("parseUtxos", () => {
+  it("reads Kupo matches and Ogmios UTxOs like cardano-cli UTxOs", () => {
+    const [cli] = parseUtxos(CLI_UTXOS);
+
+    expect(cli.referenceScript).toMatchObject({ hash: "3a888d65f16790950a72daee1f63aa05add6d268434107cfa5b67712" });
+    expect(cli.datum).toMatchObject({ type: "inline", hex: DATUM });
+    expect(parseUtxos(KUPO_MATCHES)).toEqual([cli]);
+    expect(parseUtxos(OGMIOS_RESPONSE)).toEqual([cli]);
+    expect(parseUtxos(OGMIOS_RESPONSE.result)).toEqual([cli]);
+  });
+
+  it("asks for resolved hashes when a Kupo match lacks its datum", () => {
+    const [match] = KUPO_MATCHES;
+
+    expect(() => parseUtxos([{ ...match, datum: undefined }])).toThrow(/resolve_hashes/);
+    expect(() => parseUtxos([{ ref: `${TX_HASH}#1` }])).toThrow(/Kupo match or an Ogmios UTxO/);
+  });
+});
+
+describe("resolveInputs", () => {
+  const tx = decodeTransaction(SAMPLE_TX_HEX);
+  const provider = createUtxoProvider(
+    parseUtxos({ [`${tx.inputs[0].txHash}#0`]: { address: ADDRESS, value: { lovelace: 300000000 } } }),
+  );
+
+  it("attaches the spent outputs, with null for inputs the provider doesn't have", async () => {
+    const resolved = resolveInputs(tx, await fetchUtxos(tx, provider));
+
+    expect(resolved.inputs[0].output).toMatchObject({ address: { bech32: ADDRESS }, value: { lovelace: "300000000" } });
+    expect(resolved.inputs[0].output).not.toHaveProperty("cbor");
+    expect(resolved.inputs[1].output).toBeNull();
+    expect(tx.inputs[0].output).toBeUndefined();
+  });
+
+  it("fetches from a provider that answers asynchronously, like a network source", async () => {
+    const requested: string[][] = [];
+    const remote = {
+      getUtxos: async (inputs: DecodedInput[]) => {
+        requested.push(inputs.map((input) => `${input.txHash}#${input.index}`));
+        return provider.getUtxos(inputs);
+      },
+    };
+    const resolved = resolveInputs(tx, await fetchUtxos(tx, remote));
+
+    expect(requested).toHaveLength(1);
+    expect(requested[0]).toContain(`${tx.inputs[0].txHash}#0`);
+    expect(resolved.inputs[0].output).toMatchObject({ value: { lovelace: "300000000" } });
+  });
+});
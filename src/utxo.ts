@@ -0,0 +1,303 @@
+import { existsSync, readFileSync } from "fs";
+import {
+  Address,
+  AssetName,
+  BigNum,
+  ByronAddress,
+  DataHash,
+  Language,
+  MultiAsset,
+  NativeScript,
+  PlutusData,
+  PlutusDatumSchema,
+  PlutusScript,
+  ScriptHash,
+  ScriptRef,
+  TransactionOutput,
+  Value,
+} from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { decodeCbor } from "./cbor.js";
+import { decodeOutput } from "./decoder.js";
+import type { DecodedInput, DecodedTransaction, DecodedUtxo, PlutusLanguage, UtxoProvider } from "./types.js";
+
+/** One entry of `cardano-cli query utxo --output-json` */
+interface CliUtxo {
+  address: string;
+  value: Record<string, number | string | Record<string, number | string>>;
+  datumhash?: string | null;
+  inlineDatum?: unknown;
+  inlineDatumRaw?: string | null;
+  referenceScript?: { script: { cborHex: string; type: string } } | null;
+}
+
+/** One match of Kupo's /matches endpoint; datum and script are only there with ?resolve_hashes */
+interface KupoMatch {
+  transaction_id: string;
+  output_index: number;
+  address: string;
+  /** Assets are keyed by "policyId.assetName", or the policy id alone for an empty name */
+  value: { coins: number | string; assets?: Record<string, number | string> };
+  datum_hash?: string | null;
+  datum_type?: "hash" | "inline";
+  datum?: string | null;
+  script_hash?: string | null;
+  script?: { language: string; script: string } | null;
+}
+
+/** One UTxO of Ogmios' queryLedgerState/utxo result */
+interface OgmiosUtxo {
+  transaction: { id: string };
+  index: number;
+  address: string;
+  value: Record<string, Record<string, number | string>>;
+  datumHash?: string;
+  datum?: string;
+  script?: { language: string; cbor: string };
+}
+
+/** An output in the terms shared by the UTxO formats */
+interface OutputFields {
+  address: string;
+  lovelace: number | string;
+  /** [policy id, asset name hex, quantity] */
+  assets: [string, string, number | string][];
+  datumHash?: string | null;
+  /** Inline datum CBOR hex */
+  inlineDatum?: string | null;
+  script?: { language: string; cborHex: string } | null;
+}
+
+const SCRIPT_LANGUAGES: Record<string, () => Language> = {
+  PlutusScriptV1: Language.new_plutus_v1,
+  PlutusScriptV2: Language.new_plutus_v2,
+  PlutusScriptV3: Language.new_plutus_v3,
+  "plutus:v1": Language.new_plutus_v1,
+  "plutus:v2": Language.new_plutus_v2,
+  "plutus:v3": Language.new_plutus_v3,
+};
+
+const refOf = (utxo: { txHash: string; index: number }) => `${utxo.txHash}#${utxo.index}`;
+
+function parseAddress(address: string): Address {
+  return ByronAddress.is_valid(address) ? ByronAddress.from_base58(address).to_address() : Address.from_bech32(address);
+}
+
+/**
+ * Plutus scripts come wrapped in one CBOR byte string (as in the witness set)
+ * or, as cardano-cli and Kupo print them, in two
+ */
+function parsePlutusScript(cborHex: string, language: Language): PlutusScript {
+  const bytes = Buffer.from(cborHex, "hex");
+  const inner = decodeCbor(bytes);
+  const doubleWrapped = inner.type === "bytes" && (inner.value[0] & 0xe0) === 0x40;
+  return doubleWrapped
+    ? PlutusScript.from_bytes_with_version(bytes, language)
+    : PlutusScript.new_with_version(bytes, language);
+}
+
+function parseScriptRef(type: string, cborHex: string): ScriptRef {
+  const language = SCRIPT_LANGUAGES[type];
+  return language
+    ? ScriptRef.new_plutus_script(parsePlutusScript(cborHex, language()))
+    : ScriptRef.new_native_script(NativeScript.from_hex(cborHex));
+}
+
+function buildOutput(fields: OutputFields): TransactionOutput {
+  const value = Value.new(BigNum.from_str(String(fields.lovelace)));
+  const multiasset = MultiAsset.new();
+  for (const [policyId, name, quantity] of fields.assets) {
+    multiasset.set_asset(
+      ScriptHash.from_hex(policyId),
+      AssetName.new(Buffer.from(name, "hex")),
+      BigNum.from_str(String(quantity)),
+    );
+  }
+  if (multiasset.len() > 0) value.set_multiasset(multiasset);
+
+  const output = TransactionOutput.new(parseAddress(fields.address), value);
+  if (fields.inlineDatum) {
+    output.set_plutus_data(PlutusData.from_hex(fields.inlineDatum));
+  } else if (fields.datumHash) {
+    output.set_data_hash(DataHash.from_hex(fields.datumHash));
+  }
+  if (fields.script) output.set_script_ref(parseScriptRef(fields.script.language, fields.script.cborHex));
+  return output;
+}
+
+function parseCliUtxo(utxo: CliUtxo): TransactionOutput {
+  const assets = Object.entries(utxo.value).flatMap(([policyId, assets]) =>
+    policyId === "lovelace" || typeof assets !== "object"
+      ? []
+      : Object.entries(assets).map(([name, quantity]): [string, string, number | string] => [policyId, name, quantity]),
+  );
+  const inlineDatum =
+    utxo.inlineDatumRaw ||
+    (utxo.inlineDatum
+      ? PlutusData.from_json(JSON.stringify(utxo.inlineDatum), PlutusDatumSchema.DetailedSchema).to_hex()
+      : null);
+  const script = utxo.referenceScript?.script;
+
+  return buildOutput({
+    address: utxo.address,
+    lovelace: (utxo.value.lovelace as number | string | undefined) ?? 0,
+    assets,
+    datumHash: utxo.datumhash,
+    inlineDatum,
+    script: script ? { language: script.type, cborHex: script.cborHex } : null,
+  });
+}
+
+function parseKupoMatch(match: KupoMatch): TransactionOutput {
+  const ref = `${match.transaction_id}#${match.output_index}`;
+  if ((match.datum_type === "inline" && !match.datum) || (match.script_hash && !match.script)) {
+    throw new Error(`Kupo match ${ref} has a datum or script without its content; query Kupo with ?resolve_hashes`);
+  }
+  const assets = Object.entries(match.value.assets ?? {}).map(([unit, quantity]): [string, string, number | string] => {
+    const [policyId, name = ""] = unit.split(".");
+    return [policyId, name, quantity];
+  });
+
+  return buildOutput({
+    address: match.address,
+    lovelace: match.value.coins,
+    assets,
+    datumHash: match.datum_type === "hash" ? match.datum_hash : null,
+    inlineDatum: match.datum_type === "inline" ? match.datum : null,
+    script: match.script ? { language: match.script.language, cborHex: match.script.script } : null,
+  });
+}
+
+function parseOgmiosUtxo(utxo: OgmiosUtxo): TransactionOutput {
+  const assets = Object.entries(utxo.value).flatMap(([policyId, assets]) =>
+    policyId === "ada"
+      ? []
+      : Object.entries(assets).map(([name, quantity]): [string, string, number | string] => [policyId, name, quantity]),
+  );
+
+  return buildOutput({
+    address: utxo.address,
+    lovelace: utxo.value.ada?.lovelace ?? 0,
+    assets,
+    datumHash: utxo.datumHash,
+    inlineDatum: utxo.datum,
+    script: utxo.script ? { language: utxo.script.language, cborHex: utxo.script.cbor } : null,
+  });
+}
+
+/** Kupo matches and Ogmios UTxOs, which carry their own references */
+function parseUtxoList(entries: unknown[]): DecodedUtxo[] {
+  return entries.map((entry) => {
+    const utxo = entry as Partial<KupoMatch & OgmiosUtxo>;
+    let txHash: string, index: number, output: TransactionOutput;
+    if (typeof utxo.transaction_id === "string") {
+      [txHash, index, output] = [utxo.transaction_id, Number(utxo.output_index), parseKupoMatch(entry as KupoMatch)];
+    } else if (typeof utxo.transaction?.id === "string") {
+      [txHash, index, output] = [utxo.transaction.id, Number(utxo.index), parseOgmiosUtxo(entry as OgmiosUtxo)];
+    } else {
+      throw new Error("Unrecognized UTxO entry, expected a Kupo match or an Ogmios UTxO");
+    }
+    return { ...decodeOutput(output, index), txHash, cbor: output.to_hex() };
+  });
+}
+
+/**
+ * Parse a UTxO set in one of these formats:
+ *   - An object keyed by `txHash#index`, each entry either a
+ *     `cardano-cli query utxo --output-json` object or the output's CBOR hex
+ *   - A list of Kupo matches (`/matches?resolve_hashes`)
+ *   - A list of Ogmios UTxOs, or the `queryLedgerState/utxo` response holding it
+ */
+export function parseUtxos(json: unknown): DecodedUtxo[] {
+  if (Array.isArray(json)) return parseUtxoList(json);
+  const response = json as { jsonrpc?: string; result?: unknown } | null;
+  if (response?.jsonrpc && Array.isArray(response.result)) return parseUtxoList(response.result);
+  if (!json || typeof json !== "object") {
+    throw new Error("UTxO set must be a JSON object keyed by txHash#index, or a list of Kupo matches or Ogmios UTxOs");
+  }
+
+  return Object.entries(json as Record<string, unknown>).map(([ref, entry]) => {
+    const [txHash, index] = ref.split("#");
+    if (!txHash || !/^\d+$/.test(index ?? "")) {
+      throw new Error(`Invalid UTxO reference "${ref}", expected txHash#index`);
+    }
+    const output =
+      typeof entry === "string" ? TransactionOutput.from_hex(entry) : parseCliUtxo(entry as CliUtxo);
+    return { ...decodeOutput(output, Number(index)), txHash, cbor: output.to_hex() };
+  });
+}
+
+/**
+ * UTxO provider over a UTxO set held in memory
+ */
+export function createUtxoProvider(utxos: DecodedUtxo[]): UtxoProvider {
+  const byRef = new Map(utxos.map((utxo) => [refOf(utxo), utxo]));
+  return { getUtxos: (inputs) => inputs.flatMap((input) => byRef.get(refOf(input)) ?? []) };
+}
+
+/**
+ * UTxO provider over a UTxO set file in any format `parseUtxos` accepts
+ */
+export function fileUtxoProvider(path: string): UtxoProvider {
+  if (!existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
+  }
+  return createUtxoProvider(parseUtxos(JSON.parse(readFileSync(path, "utf-8"))));
+}
+
+/**
+ * Fetch the outputs of a transaction's spend, collateral and reference inputs
+ */
+export async function fetchUtxos(tx: DecodedTransaction, provider: UtxoProvider): Promise<DecodedUtxo[]> {
+  const inputs = new Map([...tx.inputs, ...tx.collateral, ...tx.referenceInputs].map((input) => [refOf(input), input]));
+  return provider.getUtxos([...inputs.values()]);
+}
+
+/**
+ * Attach to each spend, collateral and reference input the output it spends
+ * or references, null for inputs missing from the UTxO set
+ */
+export function resolveInputs(tx: DecodedTransaction, utxos: DecodedUtxo[]): DecodedTransaction {
+  const byRef = new Map(utxos.map((utxo) => [refOf(utxo), utxo]));
+  const resolve = (input: DecodedInput): DecodedInput => {
+    const utxo = byRef.get(refOf(input));
+    if (!utxo) return { ...input, output: null };
+    const { txHash: _txHash, cbor: _cbor, ...output } = utxo;
+    return { ...input, output };
+  };
+
+  return {
+    ...tx,
+    inputs: tx.inputs.map(resolve),
+    collateral: tx.collateral.map(resolve),
+    referenceInputs: tx.referenceInputs.map(resolve),
+  };
+}
+
+/**
+ * Attribute scripts the witness set doesn't carry to the spent and reference
+ * inputs whose reference scripts provide them: lists the Plutus reference
+ * scripts and links minting policies to them
+ */
+export function resolveReferenceScripts(tx: DecodedTransaction, utxos: DecodedUtxo[]): DecodedTransaction {
+  const visible = new Set([...tx.inputs, ...tx.referenceInputs].map(refOf));
+  const providers = utxos.filter((utxo) => utxo.referenceScript && visible.has(refOf(utxo)));
+
+  return {
+    ...tx,
+    referenceScripts: providers
+      .filter((utxo) => utxo.referenceScript!.language !== "Native")
+      .map((utxo) => ({
+        hash: utxo.referenceScript!.hash,
+        language: utxo.referenceScript!.language as PlutusLanguage,
+        size: utxo.referenceScript!.size,
+        source: "reference",
+        ref: refOf(utxo),
+      })),
+    mint: tx.mint.map((policy) => {
+      const provider = policy.script ? undefined : providers.find((u) => u.referenceScript!.hash === policy.policyId);
+      return provider
+        ? { ...policy, script: { source: "reference", language: provider.referenceScript!.language, ref: refOf(provider) } }
+        : policy;
+    }),
+  };
+}
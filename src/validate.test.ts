@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import {
+  Credential,
+  Ed25519KeyHash,
+  EnterpriseAddress,
+  NativeScript,
+  NativeScripts,
+  ScriptPubkey,
+  Transaction,
+} from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { addressBalances, checkTotalCollateral, validateTransaction } from "./validate.js";
+import { decodeTransaction } from "./decoder.js";
+import { parseUtxos, resolveInputs } from "./utxo.js";
+import { SAMPLE_TX_HEX } from "./test-fixtures.js";
+import type { ProtocolParameters } from "./types.js";
+
+const OWNER = "addr1q8ydyk6uw6cehk5u3zspyz3dhnwzmhfls2fp42vv5dv9g2z3885pg4kpkn30ptezc855lu3w5ey93zcr5lrezjmwkftqt3mvyx";
+const POLICY = "3373f1171594fc4be7f7e3a099252cd085a9734a5dfe4732e2311921";
+
+// Inputs of the sample transaction: two NFTs plus exactly outputs + fee in lovelace
+const UTXOS = parseUtxos({
+  "08c49c049c49a665cbb83644b22662af7125a8ecd365a616b82388a1a7bb5510#0": {
+    address: OWNER,
+    value: {
+      lovelace: 300000000,
+      [POLICY]: { "576f6e6465724d696c6b303935": 1, "576f6e6465724d696c6b303136": 1 },
+    },
+  },
+  "c4e43afd34dd0ad3340b495e7a58f0be40691b04b556f1ab52419927f4df5b8b#0": {
+    address: OWNER,
+    value: { lovelace: 77003520 },
+  },
+});
+
+const PARAMS: ProtocolParameters = {
+  costModels: {},
+  minFeeA: 44,
+  minFeeB: 155381,
+  maxTxSize: 16384,
+  coinsPerUtxoByte: 4310,
+  collateralPercentage: 150,
+  maxCollateralInputs: 3,
+  keyDeposit: 2000000,
+  poolDeposit: 500000000,
+};
+
+describe("validateTransaction", () => {
+  it("passes balance, fee, size and min-ADA checks", () => {
+    const report = validateTransaction(SAMPLE_TX_HEX, UTXOS, PARAMS);
+    const rules = report.violations.map((v) => v.rule);
+
+    expect(rules).not.toContain("valuePreservation");
+    expect(rules).not.toContain("minFee");
+    expect(rules).not.toContain("minAda");
+    expect(rules).not.toContain("maxTxSize");
+    expect(report.skipped).toEqual([]);
+  });
+
+  it("reports the unsigned key input", () => {
+    const report = validateTransaction(SAMPLE_TX_HEX, UTXOS, PARAMS);
+
+    expect(report.valid).toBe(false);
+    expect(report.violations).toContainEqual({
+      rule: "missingSigner",
+      message: expect.stringContaining("c8d25b5c76b19bda9c88a0120a2dbcdc2ddd3f82921aa98ca3585428"),
+    });
+  });
+
+  it("reports missing inputs and an unbalanced transaction", () => {
+    const report = validateTransaction(SAMPLE_TX_HEX, UTXOS.slice(0, 1), PARAMS);
+
+    expect(report.violations.some((v) => v.rule === "missingInput")).toBe(true);
+    expect(report.skipped).toContain("valuePreservation: not all inputs could be resolved");
+  });
+
+  it("flags expired transactions for a given slot", () => {
+    const report = validateTransaction(SAMPLE_TX_HEX, UTXOS, PARAMS, { slot: 176866019 });
+
+    expect(report.violations.some((v) => v.rule === "validityInterval" && v.message.startsWith("Expired"))).toBe(true);
+  });
+
+  it("doesn't ask for the datum of an input locked by a native script", () => {
+    const script = NativeScript.new_script_pubkey(ScriptPubkey.new(Ed25519KeyHash.from_hex(POLICY)));
+    const scripts = NativeScripts.new();
+    scripts.add(script);
+    const tx = Transaction.from_hex(SAMPLE_TX_HEX);
+    const witnessSet = tx.witness_set();
+    witnessSet.set_native_scripts(scripts);
+    const txHex = Transaction.new(tx.body(), witnessSet, tx.auxiliary_data()).to_hex();
+    const address = EnterpriseAddress.new(1, Credential.from_scripthash(script.hash())).to_address().to_bech32();
+    const [locked] = parseUtxos({
+      [`${UTXOS[0].txHash}#0`]: { address, value: { lovelace: 300000000 }, datumhash: "ff".repeat(32) },
+    });
+    const report = validateTransaction(txHex, [locked, UTXOS[1]], PARAMS);
+    const rules = report.violations.map((v) => v.rule);
+
+    expect(rules).not.toContain("missingDatum");
+    expect(rules).not.toContain("missingScript");
+  });
+
+  it("skips checks whose parameters are missing", () => {
+    const report = validateTransaction(SAMPLE_TX_HEX, UTXOS, { costModels: {} });
+
+    expect(report.skipped.map((s) => s.split(":")[0])).toEqual(["minFee", "minAda", "maxTxSize"]);
+  });
+});
+
+describe("checkTotalCollateral", () => {
+  const decoded = decodeTransaction(SAMPLE_TX_HEX);
+  const tx = {
+    ...decoded,
+    collateral: [{ txHash: UTXOS[1].txHash, index: 0 }],
+    collateralReturn: { ...decoded.outputs[0], value: { lovelace: "72003520", assets: {} } },
+    totalCollateral: "5000000",
+  };
+
+  it("accepts a total collateral equal to the collateral minus its return", () => {
+    expect(checkTotalCollateral(tx, UTXOS)).toEqual({
+      inputs: "77003520",
+      returned: "72003520",
+      forfeited: "5000000",
+      declared: "5000000",
+      consistent: true,
+      missing: [],
+    });
+  });
+
+  it("flags a total collateral that doesn't match", () => {
+    expect(checkTotalCollateral({ ...tx, totalCollateral: "4000000" }, UTXOS).consistent).toBe(false);
+  });
+
+  it("can't check unresolved collateral inputs", () => {
+    const check = checkTotalCollateral(tx, UTXOS.slice(0, 1));
+
+    expect(check).toMatchObject({ inputs: null, forfeited: null, consistent: null });
+    expect(check.missing).toEqual([`${UTXOS[1].txHash}#0`]);
+  });
+});
+
+describe("addressBalances", () => {
+  it("nets the spent inputs against the outputs per address", () => {
+    const tx = resolveInputs(decodeTransaction(SAMPLE_TX_HEX), UTXOS);
+    const [owner, script] = addressBalances(tx);
+
+    // The owner pays the fee and locks both NFTs with 1323170 lovelace each at the script
+    expect(owner).toMatchObject({ address: OWNER, spent: { lovelace: "377003520" } });
+    expect(owner.net).toEqual({
+      lovelace: "-2870165",
+      assets: { [POLICY]: { "576f6e6465724d696c6b303935": "-1", "576f6e6465724d696c6b303136": "-1" } },
+    });
+    expect(script.spent).toEqual({ lovelace: "0", assets: {} });
+    expect(script.net).toEqual(script.received);
+  });
+});
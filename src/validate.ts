@@ -0,0 +1,373 @@
+import {
+  BigNum,
+  DataCost,
+  PlutusData,
+  LanguageKind,
+  Transaction,
+  TransactionOutput,
+  hash_plutus_data,
+  min_ada_for_output,
+} from "@emurgo/cardano-serialization-lib-nodejs-gc";
+import { decodeInputs, decodeTransaction, decodeValue, toArray } from "./decoder.js";
+import { computeMinFee } from "./fee.js";
+import { verifySignatures } from "./signatures.js";
+import type {
+  AddressBalance,
+  CollateralCheck,
+  DecodedCertificate,
+  DecodedInput,
+  DecodedTransaction,
+  DecodedUtxo,
+  DecodedValue,
+  ProtocolParameters,
+  ValidationReport,
+  ValidationViolation,
+} from "./types.js";
+
+/** Running multi-asset balance keyed by "lovelace" or "policyId.assetName" */
+type Balance = Map<string, bigint>;
+
+function addAsset(balance: Balance, unit: string, quantity: bigint): void {
+  balance.set(unit, (balance.get(unit) ?? 0n) + quantity);
+}
+
+function addValue(balance: Balance, value: DecodedValue, sign: bigint = 1n): void {
+  addAsset(balance, "lovelace", sign * BigInt(value.lovelace));
+  for (const [policyId, assets] of Object.entries(value.assets)) {
+    for (const [name, quantity] of Object.entries(assets)) {
+      addAsset(balance, `${policyId}.${name}`, sign * BigInt(quantity));
+    }
+  }
+}
+
+function addLovelace(balance: Balance, amount: string | number | bigint): void {
+  balance.set("lovelace", (balance.get("lovelace") ?? 0n) + BigInt(amount));
+}
+
+function sumValues(values: DecodedValue[]): Balance {
+  const balance: Balance = new Map();
+  values.forEach((value) => addValue(balance, value));
+  return balance;
+}
+
+/** Balance as a value, leaving out assets that net to zero */
+function toValue(balance: Balance): DecodedValue {
+  const value: DecodedValue = { lovelace: String(balance.get("lovelace") ?? 0n), assets: {} };
+  for (const [unit, quantity] of balance) {
+    if (unit === "lovelace" || quantity === 0n) continue;
+    const [policyId, name] = unit.split(".");
+    (value.assets[policyId] ??= {})[name] = quantity.toString();
+  }
+  return value;
+}
+
+/**
+ * Value each address spends and receives, from the spent inputs resolved with
+ * `resolveInputs` and the outputs. Unresolved inputs count for no address, so
+ * resolve every input for a complete balance.
+ */
+export function addressBalances(tx: DecodedTransaction): AddressBalance[] {
+  const spent = new Map<string, DecodedValue[]>();
+  const received = new Map<string, DecodedValue[]>();
+  const add = (totals: Map<string, DecodedValue[]>, address: string, value: DecodedValue) =>
+    totals.set(address, [...(totals.get(address) ?? []), value]);
+  tx.inputs.forEach((input) => input.output && add(spent, input.output.address.bech32, input.output.value));
+  tx.outputs.forEach((output) => add(received, output.address.bech32, output.value));
+
+  return [...new Set([...spent.keys(), ...received.keys()])].map((address) => {
+    const net = sumValues(received.get(address) ?? []);
+    (spent.get(address) ?? []).forEach((value) => addValue(net, value, -1n));
+    return {
+      address,
+      spent: toValue(sumValues(spent.get(address) ?? [])),
+      received: toValue(sumValues(received.get(address) ?? [])),
+      net: toValue(net),
+    };
+  });
+}
+
+/**
+ * Deposit paid (positive) or refunded (negative) by a certificate.
+ * Pre-Conway stake certificates carry no amount and use the key deposit.
+ */
+function certificateDeposit(cert: DecodedCertificate, params: ProtocolParameters): bigint | undefined {
+  switch (cert.kind) {
+    case "StakeRegistration":
+      return cert.deposit ? BigInt(cert.deposit) : toBigInt(params.keyDeposit);
+    case "StakeDeregistration": {
+      const refund = cert.deposit ? BigInt(cert.deposit) : toBigInt(params.keyDeposit);
+      return refund === undefined ? undefined : -refund;
+    }
+    case "DRepDeregistration":
+      return -BigInt(cert.deposit ?? 0);
+    case "PoolRegistration":
+      // Re-registering an existing pool pays no deposit; assume a new pool
+      return toBigInt(params.poolDeposit);
+    default:
+      return BigInt(cert.deposit ?? 0);
+  }
+}
+
+function toBigInt(value: number | undefined): bigint | undefined {
+  return value === undefined ? undefined : BigInt(value);
+}
+
+function formatRef(input: DecodedInput): string {
+  return `${input.txHash}#${input.index}`;
+}
+
+/**
+ * Check total_collateral against the collateral inputs resolved from a UTxO
+ * set: the ledger requires it to equal their lovelace minus the collateral return
+ */
+export function checkTotalCollateral(tx: DecodedTransaction, utxos: DecodedUtxo[]): CollateralCheck {
+  const utxoMap = new Map(utxos.map((utxo) => [formatRef(utxo), utxo]));
+  const missing = tx.collateral.map(formatRef).filter((ref) => !utxoMap.has(ref));
+  const inputs =
+    missing.length === 0
+      ? tx.collateral.reduce((sum, input) => sum + BigInt(utxoMap.get(formatRef(input))!.value.lovelace), 0n)
+      : null;
+  const returned = BigInt(tx.collateralReturn?.value.lovelace ?? 0);
+  const forfeited = inputs === null ? null : inputs - returned;
+
+  return {
+    inputs: inputs?.toString() ?? null,
+    returned: returned.toString(),
+    forfeited: forfeited?.toString() ?? null,
+    declared: tx.totalCollateral,
+    consistent: forfeited === null || tx.totalCollateral === null ? null : BigInt(tx.totalCollateral) === forfeited,
+    missing,
+  };
+}
+
+/**
+ * Run the ledger's phase-1 checks against a UTxO set and protocol parameters.
+ *
+ * Pass `slot` to also check the validity interval against the current slot.
+ * Checks whose protocol parameters are missing are listed in `skipped`.
+ */
+export function validateTransaction(
+  txHex: string,
+  utxos: DecodedUtxo[],
+  params: ProtocolParameters,
+  options: { slot?: number } = {},
+): ValidationReport {
+  const tx = Transaction.from_hex(txHex);
+  const body = tx.body();
+  const decoded = decodeTransaction(txHex);
+  const txSize = txHex.length / 2;
+  const violations: ValidationViolation[] = [];
+  const skipped: string[] = [];
+  const fail = (rule: ValidationViolation["rule"], message: string) => violations.push({ rule, message });
+
+  const utxoMap = new Map(utxos.map((utxo) => [formatRef(utxo), utxo]));
+  const resolve = (inputs: DecodedInput[], label: string) =>
+    inputs.flatMap((input) => {
+      const utxo = utxoMap.get(formatRef(input));
+      if (!utxo) fail("missingInput", `${label} ${formatRef(input)} not found in UTxO set`);
+      return utxo ? [utxo] : [];
+    });
+
+  const spent = resolve(decoded.inputs, "Input");
+  const collateralInputs = decodeInputs(body.collateral());
+  const collateral = resolve(collateralInputs, "Collateral input");
+  const referenced = resolve(decodeInputs(body.reference_inputs()), "Reference input");
+  const allSpentResolved = spent.length === decoded.inputs.length;
+
+  // Value preservation: inputs + withdrawals + refunds + mint = outputs + fee + deposits + donation
+  const deposits = decoded.certificates.map((cert) => certificateDeposit(cert, params));
+  if (!allSpentResolved) {
+    skipped.push("valuePreservation: not all inputs could be resolved");
+  } else if (deposits.includes(undefined)) {
+    skipped.push("valuePreservation: protocol parameters are missing keyDeposit or poolDeposit");
+  } else {
+    const consumed = sumValues(spent.map((utxo) => utxo.value));
+    decoded.withdrawals.forEach((w) => addLovelace(consumed, w.amount));
+
+    const produced = sumValues(decoded.outputs.map((output) => output.value));
+    addLovelace(produced, decoded.fee);
+    addLovelace(produced, decoded.donation ?? 0);
+    deposits.forEach((deposit) => addLovelace(produced, deposit!));
+    decoded.proposals.forEach((p) => addLovelace(produced, p.deposit));
+    // Minted assets count as consumed, burned assets as produced
+    decoded.mint.forEach(({ policyId, assets }) => {
+      assets.forEach(({ assetName, quantity }) => {
+        const amount = BigInt(quantity);
+        addAsset(amount > 0n ? consumed : produced, `${policyId}.${assetName}`, amount > 0n ? amount : -amount);
+      });
+    });
+
+    const units = new Set([...consumed.keys(), ...produced.keys()]);
+    const imbalances = [...units].filter((unit) => (consumed.get(unit) ?? 0n) !== (produced.get(unit) ?? 0n));
+    imbalances.forEach((unit) => {
+      fail(
+        "valuePreservation",
+        `Value not preserved for ${unit}: consumed ${consumed.get(unit) ?? 0n}, produced ${produced.get(unit) ?? 0n}`,
+      );
+    });
+  }
+
+  // Minimum fee
+  const referenceScriptSize = [...spent, ...referenced].reduce((sum, u) => sum + (u.referenceScript?.size ?? 0), 0);
+  try {
+    const minFee = computeMinFee(txSize, decoded.witnessSet.redeemers ?? [], referenceScriptSize, params);
+    if (BigInt(decoded.fee) < BigInt(minFee.total)) {
+      fail("minFee", `Fee ${decoded.fee} is below the minimum ${minFee.total}`);
+    }
+  } catch (error) {
+    skipped.push(`minFee: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // Minimum ADA per output (including the collateral return)
+  if (params.coinsPerUtxoByte === undefined) {
+    skipped.push("minAda: protocol parameters are missing coinsPerUtxoByte");
+  } else {
+    const dataCost = DataCost.new_coins_per_byte(BigNum.from_str(String(params.coinsPerUtxoByte)));
+    const outputs = toArray(body.outputs()).map((output, i): [string, TransactionOutput] => [`Output ${i}`, output]);
+    const collateralReturn = body.collateral_return();
+    if (collateralReturn) outputs.push(["Collateral return", collateralReturn]);
+
+    outputs.forEach(([label, output]) => {
+      const minAda = min_ada_for_output(output, dataCost);
+      if (output.amount().coin().less_than(minAda)) {
+        const coin = output.amount().coin().to_str();
+        fail("minAda", `${label} holds ${coin} lovelace, below the minimum ${minAda.to_str()}`);
+      }
+    });
+  }
+
+  // Maximum transaction size
+  if (params.maxTxSize === undefined) {
+    skipped.push("maxTxSize: protocol parameters are missing maxTxSize");
+  } else if (txSize > params.maxTxSize) {
+    fail("maxTxSize", `Transaction is ${txSize} bytes, above the maximum ${params.maxTxSize}`);
+  }
+
+  // Collateral, required only when scripts run
+  if (decoded.witnessSet.redeemers?.length) {
+    if (collateralInputs.length === 0) {
+      fail("collateral", "Transaction runs Plutus scripts but has no collateral inputs");
+    }
+    if (params.maxCollateralInputs !== undefined && collateralInputs.length > params.maxCollateralInputs) {
+      fail(
+        "collateral",
+        `${collateralInputs.length} collateral inputs exceed the maximum ${params.maxCollateralInputs}`,
+      );
+    }
+    collateral
+      .filter((utxo) => utxo.address.paymentCredential?.type === "script")
+      .forEach((utxo) => fail("collateral", `Collateral input ${formatRef(utxo)} is locked by a script`));
+
+    if (collateral.length === collateralInputs.length && collateral.length > 0) {
+      const balance = sumValues(collateral.map((utxo) => utxo.value));
+      const collateralReturn = body.collateral_return();
+      if (collateralReturn) addValue(balance, decodeValue(collateralReturn.amount()), -1n);
+
+      const lovelace = balance.get("lovelace") ?? 0n;
+      const tokens = [...balance].filter(([unit, quantity]) => unit !== "lovelace" && quantity !== 0n);
+      if (tokens.length > 0) {
+        const units = tokens.map(([unit]) => unit).join(", ");
+        fail("collateral", `Collateral keeps non-ADA assets not sent to the collateral return: ${units}`);
+      }
+      if (params.collateralPercentage === undefined) {
+        skipped.push("collateral: protocol parameters are missing collateralPercentage");
+      } else if (lovelace * 100n < BigInt(decoded.fee) * BigInt(params.collateralPercentage)) {
+        fail(
+          "collateral",
+          `Collateral of ${lovelace} lovelace is below ${params.collateralPercentage}% of the fee ${decoded.fee}`,
+        );
+      }
+      const totalCollateral = checkTotalCollateral(decoded, utxos);
+      if (totalCollateral.consistent === false) {
+        fail(
+          "collateral",
+          `total_collateral ${totalCollateral.declared} does not match the collateral balance ${totalCollateral.forfeited}`,
+        );
+      }
+    }
+  }
+
+  // Missing vkey witnesses
+  const signatures = verifySignatures(txHex);
+  signatures.invalid.forEach((hash) => {
+    fail("invalidSignature", `Signature by ${hash} does not verify against body hash ${signatures.bodyHash}`);
+  });
+  const witnessKeys = new Set(signatures.witnesses.filter((w) => w.valid).map((w) => w.keyHash));
+  const neededKeys = new Map<string, string>();
+  decoded.requiredSigners.forEach((hash) => neededKeys.set(hash, "required signer"));
+  [...spent, ...collateral].forEach((utxo) => {
+    const cred = utxo.address.paymentCredential;
+    if (cred?.type === "key" && !neededKeys.has(cred.hash)) neededKeys.set(cred.hash, `spends ${formatRef(utxo)}`);
+  });
+  decoded.withdrawals.forEach((w) => {
+    if (w.credential.type === "key" && !neededKeys.has(w.credential.hash)) {
+      neededKeys.set(w.credential.hash, `withdraws from ${w.rewardAddress}`);
+    }
+  });
+  for (const [hash, reason] of neededKeys) {
+    if (!witnessKeys.has(hash)) fail("missingSigner", `Missing vkey witness for ${hash} (${reason})`);
+  }
+
+  // Missing scripts and datums
+  const ws = tx.witness_set();
+  const scripts = new Map<string, string>();
+  toArray(ws.plutus_scripts()).forEach((script) => {
+    scripts.set(script.hash().to_hex(), LanguageKind[script.language_version().kind()]);
+  });
+  toArray(ws.native_scripts()).forEach((script) => scripts.set(script.hash().to_hex(), "Native"));
+  [...spent, ...referenced].forEach((utxo) => {
+    if (utxo.referenceScript) scripts.set(utxo.referenceScript.hash, utxo.referenceScript.language);
+  });
+
+  const witnessDatums = new Set(
+    (decoded.witnessSet.plutusData ?? []).map((datum) => hash_plutus_data(PlutusData.from_hex(datum.hex)).to_hex()),
+  );
+
+  spent.forEach((utxo) => {
+    const cred = utxo.address.paymentCredential;
+    if (cred?.type !== "script") return;
+    const language = scripts.get(cred.hash);
+    if (!language) {
+      fail(
+        "missingScript",
+        `No script ${cred.hash} in the witness set or reference inputs to spend ${formatRef(utxo)}`,
+      );
+    }
+    // Only Plutus scripts see datums, so native-script inputs need no datum witness
+    const plutus = language === "PlutusV1" || language === "PlutusV2" || language === "PlutusV3";
+    if (plutus && utxo.datum?.type === "hash" && !witnessDatums.has(utxo.datum.hash)) {
+      fail("missingDatum", `Datum ${utxo.datum.hash} for ${formatRef(utxo)} is not in the witness set`);
+    }
+    if (!utxo.datum && (language === "PlutusV1" || language === "PlutusV2")) {
+      fail("missingDatum", `${formatRef(utxo)} is locked by a ${language} script but has no datum`);
+    }
+  });
+  decoded.mint.forEach(({ policyId }) => {
+    if (!scripts.has(policyId)) {
+      fail("missingScript", `No script for minting policy ${policyId} in the witness set or reference inputs`);
+    }
+  });
+  decoded.withdrawals.forEach((w) => {
+    if (w.credential.type === "script" && !scripts.has(w.credential.hash)) {
+      fail("missingScript", `No script ${w.credential.hash} to withdraw from ${w.rewardAddress}`);
+    }
+  });
+
+  // Validity interval
+  const start = decoded.validityStart === null ? null : BigInt(decoded.validityStart);
+  const ttl = decoded.ttl === null ? null : BigInt(decoded.ttl);
+  if (start !== null && ttl !== null && start >= ttl) {
+    fail("validityInterval", `Validity start ${start} is not before TTL ${ttl}, so no slot can satisfy it`);
+  }
+  if (options.slot !== undefined) {
+    const slot = BigInt(options.slot);
+    if (start !== null && slot < start) {
+      fail("validityInterval", `Not valid yet: slot ${slot} is before validity start ${start}`);
+    }
+    if (ttl !== null && slot >= ttl) {
+      fail("validityInterval", `Expired: slot ${slot} is at or after TTL ${ttl}`);
+    }
+  }
+
+  return { valid: violations.length === 0, violations, skipped };
+}